@@ -0,0 +1,119 @@
+// Question types and their graders. Each type stores its own answer fields
+// so the public projection (what candidates see) is easy to get right.
+
+export type QuestionType = 'single' | 'multi' | 'numeric' | 'text' | 'code';
+
+type BaseQuestion = {
+  id: string;
+  question: string;
+  explanation?: string; // shown on the results screen after grading
+  tier?: string; // expertise level this question vets; missing = 'Verified'
+  retired?: boolean;
+};
+
+export type BankQuestion = BaseQuestion &
+  (
+    | { type?: 'single'; options: string[]; answer: string } // legacy docs have no type
+    | { type: 'multi'; options: string[]; answers: string[] }
+    | { type: 'numeric'; numericAnswer: number; tolerance: number; unit?: string }
+    | { type: 'text'; acceptedAnswers: string[] }
+    | { type: 'code'; code: string; language?: string; acceptedAnswers: string[] }
+  );
+
+export type PublicQuizQuestion = {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  unit?: string;
+  code?: string;
+  language?: string;
+};
+
+// single: option text, multi: option texts, numeric: number, text/code: free text
+export type QuizAnswer = string | string[] | number | null;
+
+export const isQuizAnswer = (value: unknown): value is QuizAnswer =>
+  value === null ||
+  typeof value === 'string' ||
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (Array.isArray(value) && value.every((v) => typeof v === 'string'));
+
+// Case-, whitespace- and trailing-punctuation-insensitive comparison for short answers
+const normalizeText = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+
+// Code output: compare line by line, ignoring trailing whitespace and blank edges
+const normalizeCode = (value: string) =>
+  value
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+export const gradeAnswer = (q: BankQuestion, answer: QuizAnswer): boolean => {
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return answer === q.answer;
+    case 'multi': {
+      if (!Array.isArray(answer)) return false;
+      const chosen = new Set(answer);
+      return chosen.size === q.answers.length && q.answers.every((c) => chosen.has(c));
+    }
+    case 'numeric':
+      return typeof answer === 'number' && Math.abs(answer - q.numericAnswer) <= Math.abs(q.tolerance ?? 0);
+    case 'text':
+      return (
+        typeof answer === 'string' &&
+        q.acceptedAnswers.some((a) => normalizeText(a) === normalizeText(answer))
+      );
+    case 'code':
+      return (
+        typeof answer === 'string' &&
+        q.acceptedAnswers.some((a) => normalizeCode(a) === normalizeCode(answer))
+      );
+    default:
+      return false;
+  }
+};
+
+// Strips answer fields; option order is shuffled by the caller
+export const toPublicQuestion = (
+  q: BankQuestion,
+  shuffle: <T>(items: T[]) => T[],
+): PublicQuizQuestion => {
+  const base = { id: q.id, question: q.question };
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return { ...base, type: 'single', options: shuffle(q.options) };
+    case 'multi':
+      return { ...base, type: 'multi', options: shuffle(q.options) };
+    case 'numeric':
+      return { ...base, type: 'numeric', unit: q.unit };
+    case 'code':
+      return { ...base, type: 'code', code: q.code, language: q.language };
+    default:
+      return { ...base, type: 'text' };
+  }
+};
+
+// Human-readable correct answer for the post-quiz review
+export const describeCorrectAnswer = (q: BankQuestion): string => {
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return q.answer;
+    case 'multi':
+      return q.answers.join(', ');
+    case 'numeric':
+      return `${q.numericAnswer}${q.tolerance ? ` ± ${q.tolerance}` : ''}${q.unit ? ` ${q.unit}` : ''}`;
+    case 'text':
+    case 'code':
+      return q.acceptedAnswers[0] ?? '';
+    default:
+      return '';
+  }
+};
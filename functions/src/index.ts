@@ -0,0 +1,1249 @@
+import { randomInt } from 'node:crypto';
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import {
+  getFirestore,
+  FieldPath,
+  FieldValue,
+  Timestamp,
+  type DocumentReference,
+  type DocumentSnapshot,
+} from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentCreated, onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import {
+  describeCorrectAnswer,
+  gradeAnswer,
+  isQuizAnswer,
+  toPublicQuestion,
+  type BankQuestion,
+  type PublicQuizQuestion,
+  type QuestionType,
+  type QuizAnswer,
+} from './grading.js';
+import { buildSearchFields, sameTokens } from './search.js';
+
+initializeApp();
+const db = getFirestore();
+
+const APP_ID_PATTERN = /^[\w-]{1,64}$/;
+const PASSING_SCORE_PERCENTAGE = 0.7;
+// Bank-level settings fall back to these when an admin hasn't set them
+const DEFAULT_QUESTIONS_PER_ATTEMPT = 5;
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const DEFAULT_VALIDITY_DAYS = 365;
+// Allowance for network latency when checking a submission against its time limit
+const SUBMIT_GRACE_MS = 10_000;
+// Must match TAG_PATTERN and the tag limits in src/lib/tags.ts and src/constants.ts
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const TAG_MAX_LENGTH = 30;
+const MAX_TAGS_PER_QUESTION = 5;
+
+// Expertise tiers, lowest first. Each tier has its own (harder) question pool,
+// and attempting a tier requires an unexpired verification at the one below.
+const EXPERTISE_LEVELS = ['Verified', 'Advanced', 'Authority'] as const;
+type ExpertiseLevel = (typeof EXPERTISE_LEVELS)[number];
+
+const isExpertiseLevel = (value: unknown): value is ExpertiseLevel =>
+  EXPERTISE_LEVELS.includes(value as ExpertiseLevel);
+
+const levelRank = (level: ExpertiseLevel) => EXPERTISE_LEVELS.indexOf(level);
+
+type CategoryVerification = {
+  level: ExpertiseLevel;
+  passedAt: Timestamp;
+  expiresAt: Timestamp;
+  score: number;
+  total: number;
+};
+
+type VerificationDoc = {
+  displayName?: string;
+  verifiedCategories?: string[];
+  categories?: Record<string, CategoryVerification>;
+};
+
+const getActiveVerification = (v: VerificationDoc | undefined, category: string) => {
+  const entry = v?.categories?.[category];
+  return entry && entry.expiresAt.toMillis() > Date.now() ? entry : null;
+};
+
+// Legacy verification docs without levels never expire
+const isVerifiedIn = (v: VerificationDoc | undefined, category: string) =>
+  v?.categories?.[category] ? !!getActiveVerification(v, category) : !!v?.verifiedCategories?.includes(category);
+
+const getPublicCollectionPath = (appId: string, collectionName: string) =>
+  `artifacts/${appId}/public/data/${collectionName}`;
+
+// The rules check each tag (isTagAt), but documents written before they did
+// may still hold malformed ones, so those are ignored here
+const getQuestionTags = (question: DocumentSnapshot): string[] => {
+  const tags = question.get('tags') as unknown;
+  if (!Array.isArray(tags)) return [];
+  const valid = tags.filter(
+    (t): t is string => typeof t === 'string' && t.length <= TAG_MAX_LENGTH && TAG_PATTERN.test(t),
+  );
+  return Array.from(new Set(valid)).slice(0, MAX_TAGS_PER_QUESTION);
+};
+
+// =============================================================
+// Question bank access (quiz_banks/{category}/questions/{id})
+// =============================================================
+
+type QuizBank = {
+  category: string;
+  active: boolean;
+  questionsPerAttempt?: number;
+  cooldownMinutes?: number;
+  perQuestionSeconds?: number | null; // null/0 = untimed
+  totalSeconds?: number | null;
+  validityDays?: number; // how long a pass counts before re-verification
+};
+
+type TimeLimits = {
+  perQuestionSeconds: number | null;
+  totalSeconds: number | null;
+};
+
+type QuizAttempt = {
+  uid: string;
+  category: string;
+  level: ExpertiseLevel;
+  questionIds: string[];
+  status: 'in_progress' | 'passed' | 'failed' | 'abandoned';
+  total: number;
+  score: number | null;
+  answers?: Record<string, QuizAnswer>;
+  timeLimits: TimeLimits;
+  startedAt: Timestamp;
+  completedAt?: Timestamp;
+  elapsedMs?: number;
+  questionTimesMs?: Record<string, number | null>;
+  timedOut?: boolean;
+};
+
+const toTimeLimits = (bank: QuizBank): TimeLimits => ({
+  perQuestionSeconds: bank.perQuestionSeconds || null,
+  totalSeconds: bank.totalSeconds || null,
+});
+
+// The per-question limit also caps the whole attempt at n * perQuestionSeconds
+const getAttemptLimitMs = ({ perQuestionSeconds, totalSeconds }: TimeLimits, total: number) => {
+  const limits = [
+    totalSeconds ? totalSeconds * 1000 : Infinity,
+    perQuestionSeconds ? perQuestionSeconds * 1000 * total : Infinity,
+  ];
+  return Math.min(...limits);
+};
+
+const requireUid = (uid: string | undefined, action = 'taking a quiz') => {
+  if (!uid) {
+    throw new HttpsError('unauthenticated', `Sign in before ${action}.`);
+  }
+  return uid;
+};
+
+const requireAppId = (appId: unknown) => {
+  if (typeof appId !== 'string' || !APP_ID_PATTERN.test(appId)) {
+    throw new HttpsError('invalid-argument', 'Missing or malformed appId.');
+  }
+  return appId;
+};
+
+const loadBank = async (appId: string, category: unknown) => {
+  if (typeof category !== 'string' || !category) {
+    throw new HttpsError('invalid-argument', 'Missing quiz category.');
+  }
+  const ref = db.doc(`${getPublicCollectionPath(appId, 'quiz_banks')}/${category}`);
+  const snap = await ref.get();
+  if (!snap.exists || snap.get('active') === false) {
+    throw new HttpsError('not-found', `No quiz exists for category "${category}".`);
+  }
+  return { ref, bank: snap.data() as QuizBank };
+};
+
+// Unbiased Fisher-Yates; crypto RNG so the draw can't be predicted from Math.random
+const shuffle = <T>(items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// =============================================================
+// startQuiz: enforce the cooldown, draw a random attempt, record it
+// =============================================================
+
+type StartQuizRequest = {
+  appId: string;
+  category: string;
+  level?: ExpertiseLevel; // defaults to Verified
+};
+
+type StartQuizResponse = {
+  attemptId: string;
+  questions: PublicQuizQuestion[];
+  timeLimits: TimeLimits;
+};
+
+export const startQuiz = onCall<StartQuizRequest, Promise<StartQuizResponse>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const appId = requireAppId(request.data?.appId);
+  const category = request.data?.category;
+  const level = request.data?.level ?? 'Verified';
+  if (!isExpertiseLevel(level)) {
+    throw new HttpsError('invalid-argument', `Unknown expertise level "${level}".`);
+  }
+  const { ref: bankRef, bank } = await loadBank(appId, category);
+  const attempts = db.collection(getPublicCollectionPath(appId, 'quiz_attempts'));
+
+  if (levelRank(level) > 0) {
+    const verification = await db
+      .doc(`${getPublicCollectionPath(appId, 'expert_verifications')}/${uid}`)
+      .get();
+    const active = getActiveVerification(verification.data() as VerificationDoc | undefined, category);
+    const required = EXPERTISE_LEVELS[levelRank(level) - 1];
+    if (!active || levelRank(active.level) < levelRank(required)) {
+      throw new HttpsError(
+        'failed-precondition',
+        `You need a current ${required} verification in ${category} before attempting ${level}.`,
+      );
+    }
+  }
+
+  // Questions without a tier predate tiers and belong to the base level
+  const pool = (await bankRef.collection('questions').where('retired', '==', false).get()).docs.filter(
+    (d) => (d.get('tier') ?? 'Verified') === level,
+  );
+  if (!pool.length) {
+    throw new HttpsError('failed-precondition', `The ${category} bank has no ${level} questions yet.`);
+  }
+  const count = Math.min(bank.questionsPerAttempt ?? DEFAULT_QUESTIONS_PER_ATTEMPT, pool.length);
+  const drawn = shuffle(pool)
+    .slice(0, count)
+    .map((d) => ({ id: d.id, ...d.data() }) as BankQuestion);
+
+  // Starting over abandons the previous attempt, and abandoning counts as
+  // failing: otherwise candidates could reroll to preview the whole pool.
+  // Every start rewrites the user's lock doc for this quiz in the same
+  // transaction, so concurrent starts can't both pass the cooldown check.
+  const lockRef = db.doc(`${getPublicCollectionPath(appId, 'quiz_attempt_locks')}/${uid}_${level}_${category}`);
+  const lastQuery = attempts
+    .where('uid', '==', uid)
+    .where('category', '==', category)
+    .where('level', '==', level)
+    .orderBy('startedAt', 'desc')
+    .limit(1);
+  const attemptRef = attempts.doc();
+  const timeLimits = toTimeLimits(bank);
+  await db.runTransaction(async (tx) => {
+    const [, last] = await Promise.all([tx.get(lockRef), tx.get(lastQuery)]);
+    const lastAttempt = last.docs[0]?.data() as QuizAttempt | undefined;
+    if (lastAttempt && lastAttempt.status !== 'passed') {
+      const endedAt = (lastAttempt.completedAt ?? lastAttempt.startedAt).toMillis();
+      const retryAt = endedAt + (bank.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60_000;
+      if (retryAt > Date.now()) {
+        throw new HttpsError(
+          'failed-precondition',
+          `You can retake the ${category} ${level} quiz after ${new Date(retryAt).toISOString()}.`,
+          { retryAt },
+        );
+      }
+      if (lastAttempt.status === 'in_progress') {
+        tx.update(last.docs[0].ref, { status: 'abandoned', completedAt: FieldValue.serverTimestamp() });
+      }
+    }
+    tx.set(lockRef, { attemptId: attemptRef.id, updatedAt: FieldValue.serverTimestamp() });
+    tx.set(attemptRef, {
+      uid,
+      category,
+      level,
+      questionIds: drawn.map((q) => q.id),
+      status: 'in_progress',
+      total: drawn.length,
+      score: null,
+      timeLimits,
+      startedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return {
+    attemptId: attemptRef.id,
+    questions: drawn.map((q) => toPublicQuestion(q, shuffle)),
+    timeLimits,
+  };
+});
+
+// =============================================================
+// gradeQuiz: the only writer of expert_verifications
+// =============================================================
+
+type GradeQuizRequest = {
+  appId: string;
+  attemptId: string;
+  answers: Record<string, QuizAnswer>; // question id -> answer in the question's type
+  questionTimesMs?: Record<string, number>; // client-measured, for review only
+};
+
+type QuestionReview = {
+  id: string;
+  question: string;
+  type: QuestionType;
+  correct: boolean;
+  yourAnswer: QuizAnswer;
+  correctAnswer: string;
+  explanation: string | null;
+};
+
+type GradeQuizResponse = {
+  score: number;
+  total: number;
+  passed: boolean;
+  elapsedMs: number;
+  timedOut: boolean;
+  review: QuestionReview[];
+  level: ExpertiseLevel;
+  expiresAtMs: number | null; // set when the pass changed the verification
+};
+
+export const gradeQuiz = onCall<GradeQuizRequest, Promise<GradeQuizResponse>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const appId = requireAppId(request.data?.appId);
+  const { attemptId, answers, questionTimesMs } = request.data ?? {};
+  if (typeof attemptId !== 'string' || !attemptId) {
+    throw new HttpsError('invalid-argument', 'Missing attemptId.');
+  }
+  if (
+    !answers ||
+    typeof answers !== 'object' ||
+    !Object.values(answers).every(isQuizAnswer)
+  ) {
+    throw new HttpsError('invalid-argument', 'Malformed answers.');
+  }
+
+  const attemptRef = db.doc(`${getPublicCollectionPath(appId, 'quiz_attempts')}/${attemptId}`);
+
+  // Transaction so a double submit can't grade (or verify) twice
+  const result = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(attemptRef);
+    const attempt = snap.data() as QuizAttempt | undefined;
+    if (!attempt || attempt.uid !== uid) {
+      throw new HttpsError('not-found', 'Quiz attempt not found.');
+    }
+    if (attempt.status !== 'in_progress') {
+      throw new HttpsError('failed-precondition', 'This attempt has already been submitted.');
+    }
+
+    // Grade against the questions that were drawn, even if retired since
+    const bankQuestions = db.collection(
+      `${getPublicCollectionPath(appId, 'quiz_banks')}/${attempt.category}/questions`,
+    );
+    const questionSnaps = await tx.getAll(...attempt.questionIds.map((id) => bankQuestions.doc(id)));
+    const verificationRef = db.doc(`${getPublicCollectionPath(appId, 'expert_verifications')}/${uid}`);
+    const [verificationSnap, bankSnap] = await tx.getAll(
+      verificationRef,
+      db.doc(`${getPublicCollectionPath(appId, 'quiz_banks')}/${attempt.category}`),
+    );
+    // Attempts from before tiers existed were all base-level
+    const level = attempt.level ?? 'Verified';
+    // Revealing answers after submission is fine: the attempt is closed and
+    // the next one draws a fresh sample.
+    const review: QuestionReview[] = questionSnaps.map((snap) => {
+      const yourAnswer = answers[snap.id] ?? null;
+      if (!snap.exists) {
+        return {
+          id: snap.id,
+          question: '(question removed)',
+          type: 'text',
+          correct: false,
+          yourAnswer,
+          correctAnswer: '',
+          explanation: null,
+        };
+      }
+      const q = { id: snap.id, ...snap.data() } as BankQuestion;
+      return {
+        id: q.id,
+        question: q.question,
+        type: q.type ?? 'single',
+        correct: gradeAnswer(q, yourAnswer),
+        yourAnswer,
+        correctAnswer: describeCorrectAnswer(q),
+        explanation: q.explanation || null,
+      };
+    });
+    const score = review.filter((r) => r.correct).length;
+    const total = attempt.total;
+
+    // Elapsed time is measured server-side; the client only auto-submits.
+    // A submission past the limit fails regardless of score.
+    const elapsedMs = Date.now() - attempt.startedAt.toMillis();
+    const limits = attempt.timeLimits ?? { perQuestionSeconds: null, totalSeconds: null };
+    const timedOut = elapsedMs > getAttemptLimitMs(limits, total) + SUBMIT_GRACE_MS;
+    const passed = !timedOut && score / total >= PASSING_SCORE_PERCENTAGE;
+
+    tx.update(attemptRef, {
+      status: passed ? 'passed' : 'failed',
+      score,
+      answers: Object.fromEntries(attempt.questionIds.map((id) => [id, answers[id] ?? null])),
+      completedAt: FieldValue.serverTimestamp(),
+      elapsedMs,
+      timedOut,
+      questionTimesMs: Object.fromEntries(
+        attempt.questionIds.map((id) => {
+          const ms = questionTimesMs?.[id];
+          return [id, typeof ms === 'number' && Number.isFinite(ms) && ms >= 0 ? Math.round(ms) : null];
+        }),
+      ),
+    });
+
+    // A pass renews the verification at this level, unless the expert already
+    // holds a higher unexpired level (passing a lower tier never downgrades).
+    const active = getActiveVerification(verificationSnap.data() as VerificationDoc | undefined, attempt.category);
+    let expiresAtMs: number | null = null;
+    if (passed && (!active || levelRank(level) >= levelRank(active.level))) {
+      const validityDays = (bankSnap.get('validityDays') as number | undefined) ?? DEFAULT_VALIDITY_DAYS;
+      expiresAtMs = Date.now() + validityDays * 24 * 60 * 60 * 1000;
+      const displayName =
+        (request.auth?.token.name as string | undefined) || `User-${uid.substring(0, 8)}`;
+      tx.set(
+        verificationRef,
+        {
+          displayName,
+          verifiedCategories: FieldValue.arrayUnion(attempt.category),
+          categories: {
+            [attempt.category]: {
+              level,
+              passedAt: FieldValue.serverTimestamp(),
+              expiresAt: Timestamp.fromMillis(expiresAtMs),
+              score,
+              total,
+            },
+          },
+          lastUpdated: FieldValue.serverTimestamp(),
+        },
+        { merge: true },
+      );
+      // Public mirror for profile pages: level and expiry only, never scores
+      tx.set(
+        db.doc(`${getPublicCollectionPath(appId, 'profiles')}/${uid}`),
+        {
+          verifications: {
+            [attempt.category]: { level, expiresAt: Timestamp.fromMillis(expiresAtMs) },
+          },
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true },
+      );
+    }
+
+    return { score, total, passed, elapsedMs, timedOut, review, level, expiresAtMs };
+  });
+
+  return result;
+});
+
+// =============================================================
+// Notifications
+// =============================================================
+
+// notifications/{uid}/items/{id} is each user's inbox. Only functions write
+// it; owners can read their items and mark them read.
+type NotificationType = 'answer' | 'accepted' | 'vote' | 'question' | 'bounty' | 'tag';
+
+type Notification = {
+  type: NotificationType;
+  category: string;
+  questionId: string;
+  questionTitle: string;
+  answerId?: string;
+  actorName?: string | null; // votes stay anonymous
+  value?: VoteValue; // votes only
+  amount?: number; // bounties only
+};
+
+// notification_prefs/{uid}, edited by its owner
+type NotificationPrefs = {
+  mutedTypes?: NotificationType[];
+  mutedCategories?: string[];
+};
+
+const isMuted = (prefs: NotificationPrefs | undefined, notification: Notification) =>
+  !!prefs?.mutedTypes?.includes(notification.type) || !!prefs?.mutedCategories?.includes(notification.category);
+
+const getNotificationRef = (appId: string, uid: string, id: string) =>
+  db.doc(`${getPublicCollectionPath(appId, 'notifications')}/${uid}/items/${id}`);
+
+const getNotificationPrefsRef = (appId: string, uid: string) =>
+  db.doc(`${getPublicCollectionPath(appId, 'notification_prefs')}/${uid}`);
+
+const toNotificationData = (notification: Notification) => ({
+  ...notification,
+  read: false,
+  createdAt: FieldValue.serverTimestamp(),
+});
+
+// Ids come from the event (e.g. `answer_{answerId}`), so a redelivered
+// trigger rewrites the same item instead of adding a duplicate.
+const notify = async (appId: string, uid: string, id: string, notification: Notification) => {
+  const prefs = await getNotificationPrefsRef(appId, uid).get();
+  if (isMuted(prefs.data() as NotificationPrefs | undefined, notification)) return;
+  await getNotificationRef(appId, uid, id).set(toNotificationData(notification));
+};
+
+export const notifyOnAnswer = onDocumentCreated(
+  'artifacts/{appId}/public/data/questions/{questionId}/answers/{answerId}',
+  async (event) => {
+    const answer = event.data;
+    if (!answer) return;
+    const { appId, questionId, answerId } = event.params;
+    const question = await db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`).get();
+    const questionAuthorId = question.get('authorId') as string | undefined;
+    if (!question.exists || !questionAuthorId || questionAuthorId === answer.get('authorId')) return;
+    await notify(appId, questionAuthorId, `answer_${answerId}`, {
+      type: 'answer',
+      category: question.get('category') as string,
+      questionId,
+      questionTitle: question.get('title') as string,
+      answerId,
+      actorName: (answer.get('authorName') as string | undefined) ?? null,
+    });
+  },
+);
+
+// Experts with a current verification in the question's category
+const findCategoryExperts = async (appId: string, category: string) => {
+  const snap = await db
+    .collection(getPublicCollectionPath(appId, 'expert_verifications'))
+    .where('verifiedCategories', 'array-contains', category)
+    .get();
+  return snap.docs.filter((d) => isVerifiedIn(d.data() as VerificationDoc, category)).map((d) => d.id);
+};
+
+// Users following any of the tags (tag_follows/{uid}.tags)
+const findTagFollowers = async (appId: string, tags: string[]) => {
+  if (!tags.length) return [];
+  const snap = await db
+    .collection(getPublicCollectionPath(appId, 'tag_follows'))
+    .where('tags', 'array-contains-any', tags)
+    .get();
+  return snap.docs.map((d) => d.id);
+};
+
+// Category experts get a 'question' notification; followers of the
+// question's tags who aren't among them get a 'tag' one
+export const notifyOnQuestion = onDocumentCreated(
+  'artifacts/{appId}/public/data/questions/{questionId}',
+  async (event) => {
+    const question = event.data;
+    if (!question) return;
+    const { appId, questionId } = event.params;
+    const authorId = question.get('authorId') as string;
+    const notification: Notification = {
+      type: 'question',
+      category: question.get('category') as string,
+      questionId,
+      questionTitle: question.get('title') as string,
+      actorName: (question.get('authorName') as string | undefined) ?? null,
+    };
+    const experts = (await findCategoryExperts(appId, notification.category)).filter((uid) => uid !== authorId);
+    const followers = (await findTagFollowers(appId, getQuestionTags(question))).filter(
+      (uid) => uid !== authorId && !experts.includes(uid),
+    );
+    const recipients = [
+      ...experts.map((uid) => ({ uid, notification })),
+      ...followers.map((uid) => ({ uid, notification: { ...notification, type: 'tag' as const } })),
+    ];
+    if (!recipients.length) return;
+
+    const prefs = await db.getAll(...recipients.map((r) => getNotificationPrefsRef(appId, r.uid)));
+    const writer = db.bulkWriter();
+    recipients
+      .filter((r, i) => !isMuted(prefs[i].data() as NotificationPrefs | undefined, r.notification))
+      .forEach(
+        (r) =>
+          void writer.set(getNotificationRef(appId, r.uid, `question_${questionId}`), toNotificationData(r.notification)),
+      );
+    await writer.close();
+  },
+);
+
+// =============================================================
+// Reputation: answer votes and accepted answers
+// =============================================================
+
+// Points earned by an answer's author
+const REPUTATION_UPVOTE = 10;
+const REPUTATION_DOWNVOTE = -2;
+const REPUTATION_ACCEPTED = 15;
+
+type VoteValue = -1 | 0 | 1; // 0 withdraws the vote
+
+type CastVoteRequest = {
+  appId: string;
+  questionId: string;
+  answerId: string;
+  value: VoteValue;
+};
+
+type CastVoteResponse = {
+  score: number;
+  value: VoteValue;
+};
+
+const getReputationPoints = (value: VoteValue) =>
+  value === 1 ? REPUTATION_UPVOTE : value === -1 ? REPUTATION_DOWNVOTE : 0;
+
+// Per-author totals with a per-category breakdown; increments stay correct
+// when several votes land at once.
+const reputationUpdate = (category: string, points: number) => ({
+  total: FieldValue.increment(points),
+  categories: { [category]: FieldValue.increment(points) },
+  updatedAt: FieldValue.serverTimestamp(),
+});
+
+export const castVote = onCall<CastVoteRequest, Promise<CastVoteResponse>>(async (request) => {
+  const uid = requireUid(request.auth?.uid, 'voting');
+  // Guests are one click away from a fresh uid, which would make votes free
+  if (request.auth?.token.firebase.sign_in_provider === 'anonymous') {
+    throw new HttpsError('permission-denied', 'Create an account to vote.');
+  }
+  const appId = requireAppId(request.data?.appId);
+  const { questionId, answerId, value } = request.data ?? {};
+  if (typeof questionId !== 'string' || !questionId || typeof answerId !== 'string' || !answerId) {
+    throw new HttpsError('invalid-argument', 'Missing question or answer id.');
+  }
+  if (value !== 1 && value !== -1 && value !== 0) {
+    throw new HttpsError('invalid-argument', 'A vote must be 1, -1 or 0.');
+  }
+
+  const questionRef = db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`);
+  const answerRef = questionRef.collection('answers').doc(answerId);
+  const voteRef = answerRef.collection('votes').doc(uid);
+
+  // The vote doc (id = voter uid) makes it one vote per user; the transaction
+  // keeps the answer score and reputation in step with it.
+  const { response, notification } = await db.runTransaction(async (tx) => {
+    const [answerSnap, voteSnap] = await tx.getAll(answerRef, voteRef);
+    if (!answerSnap.exists) {
+      throw new HttpsError('not-found', 'Answer not found.');
+    }
+    const authorId = answerSnap.get('authorId') as string;
+    const category = answerSnap.get('category') as string;
+    if (authorId === uid) {
+      throw new HttpsError('failed-precondition', 'You cannot vote on your own answer.');
+    }
+    if (answerSnap.get('hidden') === true) {
+      throw new HttpsError('failed-precondition', 'This answer was hidden by a moderator.');
+    }
+
+    const previous = ((voteSnap.get('value') as VoteValue | undefined) ?? 0) as VoteValue;
+    const score = ((answerSnap.get('score') as number | undefined) ?? 0) + value - previous;
+    if (value === previous) return { response: { score, value }, notification: null };
+
+    if (value === 0) {
+      tx.delete(voteRef);
+    } else {
+      tx.set(voteRef, {
+        uid,
+        questionId,
+        value,
+        createdAt: voteSnap.exists ? voteSnap.get('createdAt') : FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    tx.update(answerRef, {
+      score,
+      upvotes: FieldValue.increment((value === 1 ? 1 : 0) - (previous === 1 ? 1 : 0)),
+      downvotes: FieldValue.increment((value === -1 ? 1 : 0) - (previous === -1 ? 1 : 0)),
+    });
+    // Sum of the question's answer scores, for the feed's "most votes" sort
+    tx.update(questionRef, { voteScore: FieldValue.increment(value - previous) });
+    tx.set(
+      db.doc(`${getPublicCollectionPath(appId, 'reputation')}/${authorId}`),
+      reputationUpdate(category, getReputationPoints(value) - getReputationPoints(previous)),
+      { merge: true },
+    );
+    const notification: Notification | null =
+      value === 0
+        ? null
+        : {
+            type: 'vote',
+            category,
+            questionId,
+            questionTitle: (answerSnap.get('questionTitle') as string | undefined) ?? '',
+            answerId,
+            value,
+          };
+    return { response: { score, value }, notification: notification && { authorId, ...notification } };
+  });
+
+  // One item per voter and answer; changing a vote replaces it
+  if (notification) {
+    const { authorId, ...data } = notification;
+    await notify(appId, authorId, `vote_${answerId}_${uid}`, data);
+  }
+  return response;
+});
+
+// Accepting happens client-side (question author, checked by rules). This
+// trigger credits the answer's author. `acceptedReputation` records what was
+// awarded, so redelivered events and accept/unaccept flips never double count.
+export const onAnswerAcceptedChange = onDocumentUpdated(
+  'artifacts/{appId}/public/data/questions/{questionId}/answers/{answerId}',
+  async (event) => {
+    if (event.data?.before.get('accepted') === event.data?.after.get('accepted')) return;
+    const answerRef = event.data!.after.ref;
+    const { appId, questionId, answerId } = event.params;
+
+    const newlyAccepted = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(answerRef);
+      if (!snap.exists) return false;
+      const shouldHave = snap.get('accepted') === true ? REPUTATION_ACCEPTED : 0;
+      const awarded = (snap.get('acceptedReputation') as number | undefined) ?? 0;
+      if (shouldHave === awarded) return false;
+
+      tx.update(answerRef, { acceptedReputation: shouldHave });
+      tx.set(
+        db.doc(`${getPublicCollectionPath(appId, 'reputation')}/${snap.get('authorId') as string}`),
+        reputationUpdate(snap.get('category') as string, shouldHave - awarded),
+        { merge: true },
+      );
+      return shouldHave > awarded;
+    });
+    // The asker's pick takes a running bounty
+    if (newlyAccepted) await awardBounty(appId, questionId, answerId, false);
+
+    const answer = event.data!.after;
+    const question = await db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`).get();
+    // Accepting your own answer to your own question isn't news
+    if (!newlyAccepted || question.get('authorId') === answer.get('authorId')) return;
+    await notify(appId, answer.get('authorId') as string, `accepted_${answerId}`, {
+      type: 'accepted',
+      category: answer.get('category') as string,
+      questionId,
+      questionTitle: question.get('title') as string,
+      answerId,
+      actorName: (question.get('authorName') as string | undefined) ?? null,
+    });
+  },
+);
+
+// =============================================================
+// Bounties: reputation the asker puts up for a good answer
+// =============================================================
+
+// The asker pays when offering. The bounty goes to the answer they accept,
+// or at the deadline to the top-voted answer from a still-verified expert;
+// with no such answer it expires and the asker gets it back.
+const BOUNTY_AMOUNTS = [50, 100, 200, 500];
+const BOUNTY_DURATION_DAYS = [3, 7, 14];
+
+// question.bounty, written only by these functions
+type Bounty = {
+  amount: number;
+  offeredBy: string;
+  offeredAt: Timestamp;
+  deadline: Timestamp;
+  status: 'active' | 'awarded' | 'expired';
+  answerId?: string; // set once awarded
+  awardedTo?: string;
+  awardedAt?: Timestamp;
+  auto?: boolean; // awarded at the deadline rather than by accepting
+};
+
+type OfferBountyRequest = {
+  appId: string;
+  questionId: string;
+  amount: number; // one of BOUNTY_AMOUNTS
+  days: number; // one of BOUNTY_DURATION_DAYS
+};
+
+const getReputationRef = (appId: string, uid: string) =>
+  db.doc(`${getPublicCollectionPath(appId, 'reputation')}/${uid}`);
+
+export const offerBounty = onCall<OfferBountyRequest, Promise<{ ok: true }>>(async (request) => {
+  const uid = requireUid(request.auth?.uid, 'offering a bounty');
+  if (request.auth?.token.firebase.sign_in_provider === 'anonymous') {
+    throw new HttpsError('permission-denied', 'Create an account to offer a bounty.');
+  }
+  const appId = requireAppId(request.data?.appId);
+  const { questionId, amount, days } = request.data ?? {};
+  if (typeof questionId !== 'string' || !questionId) {
+    throw new HttpsError('invalid-argument', 'Missing question id.');
+  }
+  if (!BOUNTY_AMOUNTS.includes(amount) || !BOUNTY_DURATION_DAYS.includes(days)) {
+    throw new HttpsError(
+      'invalid-argument',
+      `A bounty is ${BOUNTY_AMOUNTS.join(', ')} points for ${BOUNTY_DURATION_DAYS.join(', ')} days.`,
+    );
+  }
+
+  const questionRef = db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`);
+  const reputationRef = getReputationRef(appId, uid);
+  await db.runTransaction(async (tx) => {
+    const [questionSnap, reputationSnap] = await tx.getAll(questionRef, reputationRef);
+    if (!questionSnap.exists) throw new HttpsError('not-found', 'Question not found.');
+    if (questionSnap.get('authorId') !== uid) {
+      throw new HttpsError('permission-denied', "Only the question's author can offer a bounty.");
+    }
+    if (questionSnap.get('status') !== 'Open' || questionSnap.get('hidden') === true) {
+      throw new HttpsError('failed-precondition', 'Bounties can only be offered on open questions.');
+    }
+    if ((questionSnap.get('bounty') as Bounty | undefined)?.status === 'active') {
+      throw new HttpsError('failed-precondition', 'This question already has an active bounty.');
+    }
+    if (((reputationSnap.get('total') as number | undefined) ?? 0) < amount) {
+      throw new HttpsError('failed-precondition', `You need at least ${amount} reputation to offer this bounty.`);
+    }
+
+    // Only the total pays; category reputation reflects answers given
+    tx.set(
+      reputationRef,
+      { total: FieldValue.increment(-amount), updatedAt: FieldValue.serverTimestamp() },
+      { merge: true },
+    );
+    const bounty: Bounty = {
+      amount,
+      offeredBy: uid,
+      offeredAt: Timestamp.now(),
+      deadline: Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000),
+      status: 'active',
+    };
+    tx.update(questionRef, { bounty });
+  });
+  return { ok: true };
+});
+
+// Pays an active bounty to one answer. The asker's own answers, and hidden
+// ones, can't take it; it stays active for someone else.
+const awardBounty = async (appId: string, questionId: string, answerId: string, auto: boolean) => {
+  const questionRef = db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`);
+  const answerRef = questionRef.collection('answers').doc(answerId);
+  const awarded = await db.runTransaction(async (tx) => {
+    const [questionSnap, answerSnap] = await tx.getAll(questionRef, answerRef);
+    const bounty = questionSnap.get('bounty') as Bounty | undefined;
+    const authorId = answerSnap.get('authorId') as string | undefined;
+    if (bounty?.status !== 'active' || !authorId || authorId === bounty.offeredBy) return null;
+    if (answerSnap.get('hidden') === true) return null;
+
+    const category = questionSnap.get('category') as string;
+    tx.update(questionRef, {
+      'bounty.status': 'awarded',
+      'bounty.answerId': answerId,
+      'bounty.awardedTo': authorId,
+      'bounty.awardedAt': FieldValue.serverTimestamp(),
+      'bounty.auto': auto,
+    });
+    tx.set(getReputationRef(appId, authorId), reputationUpdate(category, bounty.amount), { merge: true });
+    return { authorId, amount: bounty.amount, category, questionTitle: questionSnap.get('title') as string };
+  });
+
+  if (!awarded) return;
+  const { authorId, ...rest } = awarded;
+  await notify(appId, authorId, `bounty_${questionId}`, { type: 'bounty', questionId, answerId, ...rest });
+};
+
+// Hands the bounty back to the asker when no answer qualified
+const expireBounty = async (appId: string, questionRef: DocumentReference) => {
+  await db.runTransaction(async (tx) => {
+    const questionSnap = await tx.get(questionRef);
+    const bounty = questionSnap.get('bounty') as Bounty | undefined;
+    if (bounty?.status !== 'active') return;
+    tx.update(questionRef, { 'bounty.status': 'expired' });
+    tx.set(
+      getReputationRef(appId, bounty.offeredBy),
+      { total: FieldValue.increment(bounty.amount), updatedAt: FieldValue.serverTimestamp() },
+      { merge: true },
+    );
+  });
+};
+
+// Highest-scored answer with a positive score whose author is still verified
+// in the category; ties go to the earlier answer.
+const findBountyWinner = async (appId: string, questionSnap: DocumentSnapshot) => {
+  const bounty = questionSnap.get('bounty') as Bounty;
+  const category = questionSnap.get('category') as string;
+  const answers = (await questionSnap.ref.collection('answers').where('score', '>', 0).get()).docs
+    .filter((a) => a.get('hidden') !== true && a.get('authorId') !== bounty.offeredBy)
+    .sort(
+      (a, b) =>
+        (b.get('score') as number) - (a.get('score') as number) ||
+        ((a.get('createdAt') as Timestamp | undefined)?.toMillis() ?? 0) -
+          ((b.get('createdAt') as Timestamp | undefined)?.toMillis() ?? 0),
+    );
+  if (!answers.length) return null;
+
+  const authorIds = Array.from(new Set(answers.map((a) => a.get('authorId') as string)));
+  const verifications = await db.getAll(
+    ...authorIds.map((uid) => db.doc(`${getPublicCollectionPath(appId, 'expert_verifications')}/${uid}`)),
+  );
+  const verified = new Set(
+    verifications.filter((v) => isVerifiedIn(v.data() as VerificationDoc | undefined, category)).map((v) => v.id),
+  );
+  return answers.find((a) => verified.has(a.get('authorId') as string))?.id ?? null;
+};
+
+// Questions of every app live under artifacts/{appId}/..., hence the
+// collection group query (quiz bank questions never have a bounty).
+export const settleExpiredBounties = onSchedule('every 1 hours', async () => {
+  const due = await db
+    .collectionGroup('questions')
+    .where('bounty.status', '==', 'active')
+    .where('bounty.deadline', '<=', Timestamp.now())
+    .get();
+  for (const questionSnap of due.docs) {
+    const appId = questionSnap.ref.path.split('/')[1];
+    try {
+      const winnerId = await findBountyWinner(appId, questionSnap);
+      if (winnerId) {
+        await awardBounty(appId, questionSnap.id, winnerId, true);
+      } else {
+        await expireBounty(appId, questionSnap.ref);
+      }
+    } catch (e) {
+      // One bad question shouldn't hold up the rest; the next run retries it
+      console.error(`Could not settle the bounty on ${questionSnap.ref.path}`, e);
+    }
+  }
+});
+
+// =============================================================
+// Feed stats and the search index, derived from answers
+// =============================================================
+
+// Rebuilds the question's search tokens from its text and all answers.
+// Recomputing (rather than patching) keeps it idempotent for redelivered events.
+const reindexQuestion = async (questionRef: DocumentReference, answerCount?: number) => {
+  const [questionSnap, answersSnap] = await Promise.all([
+    questionRef.get(),
+    questionRef.collection('answers').get(),
+  ]);
+  if (!questionSnap.exists) return;
+  const fields = buildSearchFields(
+    (questionSnap.get('title') as string | undefined) ?? '',
+    (questionSnap.get('body') as string | undefined) ?? '',
+    answersSnap.docs.map((d) => (d.get('body') as string | undefined) ?? ''),
+  );
+  const unchanged =
+    sameTokens(questionSnap.get('titleTokens'), fields.titleTokens) &&
+    sameTokens(questionSnap.get('searchTokens'), fields.searchTokens) &&
+    (answerCount === undefined || questionSnap.get('answerCount') === answerCount);
+  if (unchanged) return;
+  await questionRef.update({ ...fields, ...(answerCount === undefined ? {} : { answerCount }) });
+};
+
+const syncAnswerTitles = async (questionRef: DocumentReference, title: string) => {
+  const answers = await questionRef.collection('answers').get();
+  const writer = db.bulkWriter();
+  answers.docs
+    .filter((d) => d.get('questionTitle') !== title)
+    .forEach((d) => void writer.update(d.ref, { questionTitle: title }));
+  await writer.close();
+};
+
+// tags/{tag}.questionCount, for autocomplete and tag pages. Recounts rather
+// than increments; a tag no question uses any more is removed.
+const recountTags = async (appId: string, tags: string[]) => {
+  const questions = db.collection(getPublicCollectionPath(appId, 'questions'));
+  await Promise.all(
+    tags.map(async (tag) => {
+      const count = (await questions.where('tags', 'array-contains', tag).count().get()).data().count;
+      const tagRef = db.doc(`${getPublicCollectionPath(appId, 'tags')}/${tag}`);
+      await (count
+        ? tagRef.set({ questionCount: count, updatedAt: FieldValue.serverTimestamp() })
+        : tagRef.delete());
+    }),
+  );
+};
+
+export const onQuestionWritten = onDocumentWritten(
+  'artifacts/{appId}/public/data/questions/{questionId}',
+  async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    // Tags are set on create; this also catches deletes
+    const tagsBefore = before?.exists ? getQuestionTags(before) : [];
+    const tagsAfter = after?.exists ? getQuestionTags(after) : [];
+    const changedTags = [
+      ...tagsBefore.filter((t) => !tagsAfter.includes(t)),
+      ...tagsAfter.filter((t) => !tagsBefore.includes(t)),
+    ];
+    if (changedTags.length) await recountTags(event.params.appId, changedTags);
+
+    if (!after?.exists) return;
+    if (!before?.exists) await markAttachmentsPosted(event.params.appId, after);
+    // Our own token writes (and votes, status changes) land here too; only text changes matter
+    if (before?.exists && before.get('title') === after.get('title') && before.get('body') === after.get('body')) {
+      return;
+    }
+    await reindexQuestion(after.ref);
+    // Answers carry a copy of the title for profile pages; follow edits
+    const title = after.get('title') as string;
+    if (before?.exists && before.get('title') !== title) await syncAnswerTitles(after.ref, title);
+  },
+);
+
+// Recounts rather than increments, so a redelivered event can't skew the count
+export const onAnswerWritten = onDocumentWritten(
+  'artifacts/{appId}/public/data/questions/{questionId}/answers/{answerId}',
+  async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    const isCreateOrDelete = before?.exists !== after?.exists;
+    if (!isCreateOrDelete && before?.get('body') === after?.get('body')) return; // votes, accepted flag
+    const { appId, questionId } = event.params;
+    if (!before?.exists && after?.exists) await markAttachmentsPosted(appId, after);
+    const questionRef = db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`);
+    const count = isCreateOrDelete ? (await questionRef.collection('answers').count().get()).data().count : undefined;
+    await reindexQuestion(questionRef, count);
+  },
+);
+
+// =============================================================
+// Moderation: flags, hiding/deleting content, roles and the audit log
+// =============================================================
+
+// Roles are custom claims: `moderator` works the queue, `admin` can do
+// everything a moderator can and grants or removes the moderator role.
+const requireModerator = (auth: { uid: string; token: Record<string, unknown> } | undefined) => {
+  const uid = requireUid(auth?.uid, 'moderating');
+  if (auth?.token.moderator !== true && auth?.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only moderators can do this.');
+  }
+  return uid;
+};
+
+const MODERATION_ACTIONS = ['hide', 'restore', 'delete', 'dismiss'] as const;
+type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+const MAX_MODERATION_NOTE_LENGTH = 500;
+
+type ModerateContentRequest = {
+  appId: string;
+  questionId: string;
+  answerId?: string | null; // absent when moderating the question itself
+  action: ModerationAction;
+  note?: string;
+};
+
+type RevokeVerificationRequest = {
+  appId: string;
+  uid: string;
+  category: string;
+  note?: string;
+};
+
+type SetModeratorRequest = {
+  appId: string;
+  uid: string;
+  moderator: boolean;
+};
+
+// Flags and hidden copies are keyed by target: `{questionId}` or `{questionId}_{answerId}`
+const getTargetKey = (questionId: string, answerId?: string | null) =>
+  answerId ? `${questionId}_${answerId}` : questionId;
+
+const toModerationNote = (note: unknown) =>
+  typeof note === 'string' ? note.trim().slice(0, MAX_MODERATION_NOTE_LENGTH) : '';
+
+// Hiding blanks the text and empties the attachment list
+const blankContent = (field: string) => (field === 'attachments' ? [] : '');
+
+const getContent = (snap: DocumentSnapshot, fields: string[]): Record<string, unknown> =>
+  Object.fromEntries(fields.map((f) => [f, (snap.get(f) as unknown) ?? blankContent(f)]));
+
+// Storage folders of a post's attachments (`attachments[].path`, see
+// storage.rules). The list is client-written, so only folders under the
+// author's own uid count.
+const getAttachmentPaths = (appId: string, authorId: string, attachments: unknown) => {
+  const prefix = `artifacts/${appId}/attachments/${authorId}/`;
+  if (!Array.isArray(attachments)) return [];
+  return attachments
+    .map((a) => (a as { path?: unknown } | null)?.path)
+    .filter((path): path is string => typeof path === 'string' && path.startsWith(prefix) && !path.includes('..'));
+};
+
+const deleteAttachmentFiles = async (paths: string[]) => {
+  const bucket = getStorage().bucket();
+  await Promise.all(paths.map((path) => bucket.deleteFiles({ prefix: `${path}/` })));
+};
+
+// Once a post lists its files, storage.rules stops their author deleting them
+// (they'd break the post's links); only moderateContent removes them then
+const markAttachmentsPosted = async (appId: string, post: DocumentSnapshot) => {
+  const bucket = getStorage().bucket();
+  const paths = getAttachmentPaths(appId, post.get('authorId') as string, post.get('attachments'));
+  await Promise.all(
+    paths.map(async (path) => {
+      const [files] = await bucket.getFiles({ prefix: `${path}/` });
+      await Promise.all(files.map((file) => file.setMetadata({ metadata: { posted: 'true' } })));
+    }),
+  );
+};
+
+// Every moderation action adds one entry; entries are never changed
+const newModerationLogRef = (appId: string) =>
+  db.collection(getPublicCollectionPath(appId, 'moderation_log')).doc();
+
+export const moderateContent = onCall<ModerateContentRequest, Promise<{ ok: true }>>(async (request) => {
+  const moderatorId = requireModerator(request.auth);
+  const appId = requireAppId(request.data?.appId);
+  const { questionId, answerId, action } = request.data ?? {};
+  if (typeof questionId !== 'string' || !questionId || (answerId != null && typeof answerId !== 'string')) {
+    throw new HttpsError('invalid-argument', 'Missing question or answer id.');
+  }
+  if (!MODERATION_ACTIONS.includes(action)) {
+    throw new HttpsError('invalid-argument', `Action must be one of ${MODERATION_ACTIONS.join(', ')}.`);
+  }
+
+  const questionRef = db.doc(`${getPublicCollectionPath(appId, 'questions')}/${questionId}`);
+  const targetRef = answerId ? questionRef.collection('answers').doc(answerId) : questionRef;
+  const targetKey = getTargetKey(questionId, answerId);
+  const hiddenRef = db.doc(`${getPublicCollectionPath(appId, 'hidden_content')}/${targetKey}`);
+  const contentFields = answerId ? ['body', 'attachments'] : ['title', 'body', 'attachments'];
+  const openFlags = await db
+    .collection(getPublicCollectionPath(appId, 'flags'))
+    .where('targetKey', '==', targetKey)
+    .where('status', '==', 'open')
+    .get();
+  const entry = {
+    action,
+    moderatorId,
+    targetKey,
+    questionId,
+    answerId: answerId ?? null,
+    note: toModerationNote(request.data.note),
+    createdAt: FieldValue.serverTimestamp(),
+  };
+  const flagResolution = {
+    status: action === 'dismiss' ? 'dismissed' : 'resolved',
+    resolvedBy: moderatorId,
+    resolvedAt: FieldValue.serverTimestamp(),
+  };
+
+  // Deleting removes the doc with its subcollections (answers, votes,
+  // revisions) and their attachment files; the log entry keeps a copy of the text.
+  if (action === 'delete') {
+    const [snap, hidden] = await Promise.all([targetRef.get(), hiddenRef.get()]);
+    if (!snap.exists) throw new HttpsError('not-found', 'That content no longer exists.');
+    const content = hidden.exists
+      ? (hidden.get('content') as Record<string, unknown>)
+      : getContent(snap, contentFields);
+    const answers = answerId ? [] : (await questionRef.collection('answers').get()).docs;
+    const attachmentPaths = [
+      ...getAttachmentPaths(appId, snap.get('authorId') as string, content.attachments),
+      ...answers.flatMap((a) => getAttachmentPaths(appId, a.get('authorId') as string, a.get('attachments'))),
+    ];
+    await db.recursiveDelete(targetRef);
+    await deleteAttachmentFiles(attachmentPaths);
+    const batch = db.batch();
+    if (hidden.exists) batch.delete(hiddenRef);
+    openFlags.docs.forEach((f) => batch.update(f.ref, flagResolution));
+    batch.set(newModerationLogRef(appId), { ...entry, uid: snap.get('authorId') as string, content });
+    await batch.commit();
+    return { ok: true };
+  }
+
+  // Hiding moves the text into moderator-only hidden_content and blanks it in
+  // the public doc, so it stays out of every public read and query.
+  await db.runTransaction(async (tx) => {
+    const [snap, hidden] = await tx.getAll(targetRef, hiddenRef);
+    if (!snap.exists) throw new HttpsError('not-found', 'That content no longer exists.');
+    if (action === 'hide') {
+      if (hidden.exists) throw new HttpsError('failed-precondition', 'That content is already hidden.');
+      const content = getContent(snap, contentFields);
+      tx.set(hiddenRef, {
+        questionId,
+        answerId: answerId ?? null,
+        uid: snap.get('authorId') as string,
+        category: snap.get('category') as string,
+        content,
+        hiddenBy: moderatorId,
+        hiddenAt: FieldValue.serverTimestamp(),
+      });
+      tx.update(targetRef, {
+        hidden: true,
+        ...Object.fromEntries(contentFields.map((f) => [f, blankContent(f)])),
+      });
+    } else if (action === 'restore') {
+      if (!hidden.exists) throw new HttpsError('failed-precondition', 'That content is not hidden.');
+      tx.update(targetRef, { hidden: false, ...(hidden.get('content') as Record<string, unknown>) });
+      tx.delete(hiddenRef);
+    }
+    openFlags.docs.forEach((f) => tx.update(f.ref, flagResolution));
+    tx.set(newModerationLogRef(appId), { ...entry, uid: snap.get('authorId') as string });
+  });
+  return { ok: true };
+});
+
+// Removes one category from an expert's verification and its public mirror.
+// They can re-take the quiz (cooldowns still apply).
+export const revokeVerification = onCall<RevokeVerificationRequest, Promise<{ ok: true }>>(async (request) => {
+  const moderatorId = requireModerator(request.auth);
+  const appId = requireAppId(request.data?.appId);
+  const { uid, category } = request.data ?? {};
+  if (typeof uid !== 'string' || !uid || typeof category !== 'string' || !category) {
+    throw new HttpsError('invalid-argument', 'Missing user id or category.');
+  }
+
+  const verificationRef = db.doc(`${getPublicCollectionPath(appId, 'expert_verifications')}/${uid}`);
+  const profileRef = db.doc(`${getPublicCollectionPath(appId, 'profiles')}/${uid}`);
+  await db.runTransaction(async (tx) => {
+    const [verificationSnap, profileSnap] = await tx.getAll(verificationRef, profileRef);
+    const v = verificationSnap.data() as VerificationDoc | undefined;
+    if (!v?.categories?.[category] && !v?.verifiedCategories?.includes(category)) {
+      throw new HttpsError('failed-precondition', `That user is not verified in ${category}.`);
+    }
+    tx.update(
+      verificationRef,
+      new FieldPath('categories', category),
+      FieldValue.delete(),
+      'verifiedCategories',
+      FieldValue.arrayRemove(category),
+      'lastUpdated',
+      FieldValue.serverTimestamp(),
+    );
+    if (profileSnap.exists) {
+      tx.update(profileRef, new FieldPath('verifications', category), FieldValue.delete());
+    }
+    tx.set(newModerationLogRef(appId), {
+      action: 'revokeVerification',
+      moderatorId,
+      uid,
+      category,
+      note: toModerationNote(request.data.note),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+  return { ok: true };
+});
+
+export const setModerator = onCall<SetModeratorRequest, Promise<{ ok: true }>>(async (request) => {
+  const adminId = requireUid(request.auth?.uid, 'managing roles');
+  if (request.auth?.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only admins can grant or remove the moderator role.');
+  }
+  const appId = requireAppId(request.data?.appId);
+  const { uid, moderator } = request.data ?? {};
+  if (typeof uid !== 'string' || !uid || typeof moderator !== 'boolean') {
+    throw new HttpsError('invalid-argument', 'Missing user id or role flag.');
+  }
+
+  const user = await getAuth()
+    .getUser(uid)
+    .catch(() => {
+      throw new HttpsError('not-found', 'No user has that id.');
+    });
+  await getAuth().setCustomUserClaims(uid, { ...user.customClaims, moderator });
+  await newModerationLogRef(appId).set({
+    action: moderator ? 'grantModerator' : 'revokeModerator',
+    moderatorId: adminId,
+    uid,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  return { ok: true };
+});
@@ -0,0 +1,30 @@
+// Fills in answerCount, voteScore and the search tokens on questions posted
+// before the feed could sort and search by them (Firestore leaves docs without
+// the field out of those queries). Safe to re-run. Emulator: FIRESTORE_EMULATOR_HOST=127.0.0.1:8080
+//   npm run build && node lib/scripts/backfillQuestionStats.js <appId>
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { buildSearchFields } from '../search.js';
+
+const [appId] = process.argv.slice(2);
+if (!appId) {
+  console.error('Usage: node lib/scripts/backfillQuestionStats.js <appId>');
+  process.exit(1);
+}
+
+initializeApp();
+const db = getFirestore();
+const questions = await db.collection(`artifacts/${appId}/public/data/questions`).get();
+for (const question of questions.docs) {
+  const answers = await question.ref.collection('answers').get();
+  await question.ref.update({
+    ...buildSearchFields(
+      (question.get('title') as string | undefined) ?? '',
+      (question.get('body') as string | undefined) ?? '',
+      answers.docs.map((a) => (a.get('body') as string | undefined) ?? ''),
+    ),
+    answerCount: answers.size,
+    voteScore: answers.docs.reduce((sum, a) => sum + ((a.get('score') as number | undefined) ?? 0), 0),
+  });
+}
+console.log(`Updated ${questions.size} questions in ${appId}.`);
@@ -0,0 +1,19 @@
+// Grants (or with --revoke, removes) the `admin` custom claim used by the
+// quiz bank screen and firestore.rules. Run against the emulator with
+// FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099, or with application default
+// credentials for a real project:
+//   npm run build && node lib/scripts/setAdmin.js <uid> [--revoke]
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+const [uid, flag] = process.argv.slice(2);
+if (!uid) {
+  console.error('Usage: node lib/scripts/setAdmin.js <uid> [--revoke]');
+  process.exit(1);
+}
+
+initializeApp();
+const auth = getAuth();
+const user = await auth.getUser(uid);
+await auth.setCustomUserClaims(uid, { ...user.customClaims, admin: flag !== '--revoke' });
+console.log(`${flag === '--revoke' ? 'Revoked' : 'Granted'} admin for ${uid}. The user must refresh their ID token.`);
@@ -0,0 +1,40 @@
+// Token index for question search. Each question stores the normalized tokens
+// of its title, body and answers; the client queries with array-contains-any
+// and ranks the candidates itself. The client's tokenizer in src/lib/search.ts
+// must stay in step with this one.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+// Firestore documents max out at 1 MiB; this keeps long threads well clear
+export const MAX_SEARCH_TOKENS = 500;
+
+// Lowercase, strip accents, split on anything that isn't a letter or digit,
+// drop stop words and fold simple plurals ("vectors" -> "vector").
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t))
+    .map((t) => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+export const uniqueTokens = (...texts: string[]) =>
+  Array.from(new Set(texts.flatMap(tokenize))).slice(0, MAX_SEARCH_TOKENS);
+
+export type SearchFields = {
+  titleTokens: string[];
+  searchTokens: string[]; // title, body and answer text
+};
+
+export const buildSearchFields = (title: string, body: string, answerBodies: string[]): SearchFields => ({
+  titleTokens: uniqueTokens(title),
+  searchTokens: uniqueTokens(title, body, ...answerBodies),
+});
+
+export const sameTokens = (a: unknown, b: string[]) =>
+  Array.isArray(a) && a.length === b.length && a.every((t, i) => t === b[i]);
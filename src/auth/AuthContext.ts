@@ -0,0 +1,34 @@
+import { createContext, useContext } from 'react';
+import type { Auth, User } from 'firebase/auth';
+import type { Firestore } from 'firebase/firestore';
+import type { Functions } from 'firebase/functions';
+import type { FirebaseStorage } from 'firebase/storage';
+import type { ActiveVerification, ReputationDoc, VerificationDoc } from '../types.ts';
+
+// Firebase handles plus the signed-in user and their live user data, provided
+// by AuthProvider once Firebase is initialised
+export type AuthState = {
+  db: Firestore;
+  functions: Functions;
+  storage: FirebaseStorage;
+  auth: Auth;
+  user: User | null;
+  userId: string | null;
+  isAnonymous: boolean;
+  displayName: string | null;
+  isAdmin: boolean;
+  isModerator: boolean; // admins count as moderators
+  verification: VerificationDoc;
+  activeVerifications: ActiveVerification[];
+  reputation: ReputationDoc | null;
+  unreadCount: number;
+  followedTags: string[];
+};
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = () => {
+  const state = useContext(AuthContext);
+  if (!state) throw new Error('useAuth must be used inside AuthProvider');
+  return state;
+};
@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getApp, getApps, initializeApp } from 'firebase/app';
+import {
+  browserLocalPersistence,
+  connectAuthEmulator,
+  getAuth,
+  indexedDBLocalPersistence,
+  initializeAuth,
+  inMemoryPersistence,
+  onIdTokenChanged,
+  setPersistence,
+  signInAnonymously,
+  signInWithCustomToken,
+  type Auth,
+  type User,
+} from 'firebase/auth';
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from 'firebase/firestore';
+import { connectFunctionsEmulator, getFunctions } from 'firebase/functions';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
+import { firebaseConfig, INITIAL_AUTH_TOKEN, USE_EMULATORS } from '../config.ts';
+import { ErrorScreen, LoadingScreen } from '../components/StatusScreens.tsx';
+import * as notificationsRepo from '../data/notificationsRepo.ts';
+import * as profilesRepo from '../data/profilesRepo.ts';
+import * as tagsRepo from '../data/tagsRepo.ts';
+import * as verificationsRepo from '../data/verificationsRepo.ts';
+import { getActiveVerifications } from '../lib/verifications.ts';
+import type { ReputationDoc, VerificationDoc } from '../types.ts';
+import { AuthContext, type AuthState } from './AuthContext.ts';
+import { describeAuthError, getDefaultDisplayName } from './authHelpers.ts';
+
+// Initialises Firebase, signs in (restoring the session or starting a guest)
+// and keeps the user's verification, reputation, unread count and followed
+// tags live for everything below it. Children only render once Firebase is ready.
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [firebase, setFirebase] = useState<Pick<AuthState, 'db' | 'functions' | 'storage' | 'auth'> | null>(null);
+  const [authUser, setAuthUser] = useState<User | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isAnonymous, setIsAnonymous] = useState<boolean>(true);
+  const [displayName, setDisplayName] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  const [isModerator, setIsModerator] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [verification, setVerification] = useState<VerificationDoc | null>(null);
+  const [reputation, setReputation] = useState<ReputationDoc | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [followedTags, setFollowedTags] = useState<string[]>([]);
+
+  // -------------------------------------------------------------
+  // Firebase init + Auth (robust, clear errors)
+  // -------------------------------------------------------------
+  useEffect(() => {
+    (async () => {
+      try {
+        // Validate env before touching Firebase
+        const missing = Object.entries({
+          apiKey: firebaseConfig.apiKey,
+          projectId: firebaseConfig.projectId,
+          appId: firebaseConfig.appId,
+        })
+          .filter(([, v]) => !v)
+          .map(([k]) => k);
+        if (missing.length) {
+          setError(
+            `Firebase config missing: ${missing.join(', ')}. Check your .env and restart the dev server.`,
+          );
+          setIsLoading(false);
+          return;
+        }
+
+        // Single app instance (prevents duplicate init on HMR)
+        const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
+
+        // Auth with graceful persistence fallback
+        let authInstance: Auth;
+        try {
+          authInstance = initializeAuth(app, {
+            persistence: [
+              indexedDBLocalPersistence,
+              browserLocalPersistence,
+              inMemoryPersistence,
+            ],
+          });
+        } catch {
+          authInstance = getAuth(app);
+        }
+        if (USE_EMULATORS && !authInstance.emulatorConfig) {
+          connectAuthEmulator(authInstance, 'http://127.0.0.1:9099', { disableWarnings: true });
+        }
+        try {
+          await setPersistence(authInstance, indexedDBLocalPersistence);
+        } catch {
+          try {
+            await setPersistence(authInstance, browserLocalPersistence);
+          } catch {
+            await setPersistence(authInstance, inMemoryPersistence);
+          }
+        }
+
+        // Firestore with a persistent cache shared across tabs: the feed and the
+        // user's docs load offline, and writes made offline are queued until
+        // the connection returns. Falls back to memory when IndexedDB is
+        // unavailable; getFirestore picks up the instance on HMR re-runs.
+        let firestore: Firestore;
+        try {
+          firestore = initializeFirestore(app, {
+            localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+          });
+        } catch {
+          firestore = getFirestore(app);
+        }
+        const fns = getFunctions(app);
+        const storage = getStorage(app);
+        if (USE_EMULATORS) {
+          try {
+            connectFirestoreEmulator(firestore, '127.0.0.1', 8080);
+            connectFunctionsEmulator(fns, '127.0.0.1', 5001);
+            connectStorageEmulator(storage, '127.0.0.1', 9199);
+          } catch {
+            // Already connected (HMR re-run)
+          }
+        }
+        setFirebase({ db: firestore, functions: fns, storage, auth: authInstance });
+
+        // Restore a persisted session (guest or real account) before signing in,
+        // otherwise a returning user would be replaced by a new guest.
+        await authInstance.authStateReady();
+        try {
+          if (INITIAL_AUTH_TOKEN) {
+            await signInWithCustomToken(authInstance, INITIAL_AUTH_TOKEN);
+          } else if (!authInstance.currentUser) {
+            await signInAnonymously(authInstance);
+          }
+        } catch (authErr) {
+          console.error('[Auth] sign-in error', authErr);
+          setError(describeAuthError(authErr));
+          setIsLoading(false);
+          return;
+        }
+
+        // Observe the ID token rather than just auth state: linking a guest and
+        // profile edits keep the same user but refresh its token.
+        const unsub = onIdTokenChanged(authInstance, (user) => {
+          setAuthUser(user);
+          if (user) {
+            setUserId(user.uid);
+            setIsAnonymous(user.isAnonymous);
+            setDisplayName(user.displayName || getDefaultDisplayName(user.uid));
+            user
+              .getIdTokenResult()
+              .then((token) => {
+                setIsAdmin(token.claims.admin === true);
+                setIsModerator(token.claims.moderator === true || token.claims.admin === true);
+              })
+              .catch(() => {
+                setIsAdmin(false);
+                setIsModerator(false);
+              });
+          } else {
+            setUserId(null);
+            setIsAnonymous(true);
+            setDisplayName(null);
+            setIsAdmin(false);
+            setIsModerator(false);
+          }
+          setIsLoading(false);
+        });
+
+        return () => unsub();
+      } catch (e) {
+        console.error('[Firebase init] fatal', e);
+        const err = e as { code?: string; message?: string } | undefined;
+        setError(`Firebase init error: ${err?.code || err?.message || String(e)}`);
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const db = firebase?.db;
+
+  // Publish the display name to the public profile
+  useEffect(() => {
+    if (!db || !userId || !displayName) return;
+    profilesRepo
+      .publishDisplayName(db, userId, displayName)
+      .catch((e) => console.error('Error updating profile:', e));
+  }, [db, userId, displayName]);
+
+  // -------------------------------------------------------------
+  // Realtime user data (verification, reputation, unread notifications, followed tags)
+  // -------------------------------------------------------------
+  useEffect(() => {
+    if (!db || !userId) return;
+    const unsubVer = verificationsRepo.subscribeVerification(db, userId, setVerification, (err) => {
+      console.error('Error fetching verifications:', err);
+    });
+    const unsubRep = profilesRepo.subscribeReputation(db, userId, setReputation, (err) => {
+      console.error('Error fetching reputation:', err);
+    });
+    // Only counted for the Header badge; the list lives in NotificationsView
+    const unsubUnread = notificationsRepo.subscribeUnreadCount(db, userId, setUnreadCount, (err) => {
+      console.error('Error fetching notifications:', err);
+    });
+    const unsubTags = tagsRepo.subscribeFollowedTags(db, userId, setFollowedTags, (err) => {
+      console.error('Error fetching followed tags:', err);
+    });
+    return () => {
+      unsubVer();
+      unsubRep();
+      unsubUnread();
+      unsubTags();
+    };
+  }, [db, userId]);
+
+  // Until the new user's snapshot arrives, don't show the previous user's verifications
+  const currentVerification = useMemo<VerificationDoc>(
+    () =>
+      verification && verification.id === userId ? verification : { id: userId || 'unknown', verifiedCategories: [] },
+    [userId, verification],
+  );
+
+  const value = useMemo<AuthState | null>(
+    () =>
+      firebase && {
+        ...firebase,
+        user: authUser,
+        userId,
+        isAnonymous,
+        displayName,
+        isAdmin,
+        isModerator,
+        verification: currentVerification,
+        activeVerifications: getActiveVerifications(currentVerification),
+        reputation,
+        unreadCount,
+        followedTags,
+      },
+    [
+      firebase,
+      authUser,
+      userId,
+      isAnonymous,
+      displayName,
+      isAdmin,
+      isModerator,
+      currentVerification,
+      reputation,
+      unreadCount,
+      followedTags,
+    ],
+  );
+
+  if (isLoading) return <LoadingScreen />;
+  if (error) return <ErrorScreen message={error} />;
+  if (!value) return <LoadingScreen />;
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
@@ -0,0 +1,33 @@
+import type { AuthError } from 'firebase/auth';
+
+export const getDefaultDisplayName = (uid: string) => `User-${uid.substring(0, 8)}`;
+
+export const describeAuthError = (err: unknown) => {
+  const code = (err as AuthError | undefined)?.code || '';
+  switch (code) {
+    case 'auth/operation-not-allowed':
+      return 'This sign-in method is disabled. Enable it in Firebase Console → Authentication → Sign-in Method.';
+    case 'auth/unauthorized-domain':
+      return 'Unauthorized domain. Add your dev URL in Firebase Console → Authentication → Settings → Authorized domains.';
+    case 'auth/operation-not-supported-in-this-environment':
+      return 'Storage blocked in this environment. Try another browser or disable private mode.';
+    case 'auth/invalid-custom-token':
+      return 'Invalid custom token. Remove VITE_INITIAL_AUTH_TOKEN to test anonymous, or issue a token for this project.';
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return 'Email or password is incorrect.';
+    case 'auth/email-already-in-use':
+    case 'auth/credential-already-in-use':
+      return 'That email already has an account. Sign in instead.';
+    case 'auth/weak-password':
+      return 'Passwords need at least 6 characters.';
+    case 'auth/invalid-email':
+      return 'That email address is not valid.';
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return 'The sign-in window was closed before finishing.';
+    default:
+      return `Auth error: ${code || String(err)}`;
+  }
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Award, Check, Pencil, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { getAnswersCollectionPath } from '../data/paths.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import type { AnswerDoc, VoteValue } from '../types.ts';
+import { AttachmentPreviews } from './Attachments.tsx';
+import { AuthorLink } from './AuthorLink.tsx';
+import { ReputationBadge } from './badges.tsx';
+import { ContentEditForm, EditedToggle, RevisionHistory } from './EditHistory.tsx';
+import { FlagButton } from './FlagButton.tsx';
+import { MarkdownBody } from './Markdown.tsx';
+
+const voteButtonClassName = (isActive: boolean) =>
+  `p-1 rounded ${isActive ? 'text-indigo-600 bg-indigo-100' : 'text-gray-500 hover:text-indigo-600'}`;
+
+export const AnswerCard: React.FC<{
+  questionId: string;
+  answer: AnswerDoc;
+  isAccepted: boolean;
+  authorReputation?: number;
+  myVote: VoteValue;
+  onVote?: (value: VoteValue) => void; // absent on your own answers and for guests
+  voteHint?: string; // why voting is unavailable, shown on the disabled buttons
+  onEdit?: (body: string) => Promise<boolean>; // only on your own answers
+  flagReporterId?: string; // signed-in viewers other than the author
+  onOpenProfile: (uid: string) => void;
+  onToggleAccepted?: () => void; // only for the question's author
+}> = ({
+  questionId,
+  answer,
+  isAccepted,
+  authorReputation,
+  myVote,
+  onVote,
+  voteHint,
+  onEdit,
+  flagReporterId,
+  onOpenProfile,
+  onToggleAccepted,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  if (answer.hidden) {
+    return (
+      <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm text-gray-500">
+        This answer was hidden by a moderator.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-white p-4 rounded-lg border shadow-sm ${isAccepted ? 'border-green-500' : 'border-gray-200'}`}
+    >
+      {isAccepted && (
+        <p className="flex items-center text-sm text-green-600 font-bold mb-2">
+          <Check size={16} className="mr-1" /> Accepted answer
+        </p>
+      )}
+      {isEditing && onEdit ? (
+        <div className="mb-3">
+          <ContentEditForm
+            id={`edit-answer-${answer.id}`}
+            body={answer.body}
+            onSave={(changes) => onEdit(changes.body)}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <MarkdownBody source={answer.body} className="text-gray-800 mb-3" />
+      )}
+      <AttachmentPreviews attachments={answer.attachments} />
+      <div className="flex justify-between items-center text-sm text-gray-500">
+        <span className="flex items-center text-green-600 font-semibold">
+          <Award size={14} className="mr-1" /> Verified in {answer.category}
+        </span>
+        <span className="flex items-center space-x-2">
+          <AuthorLink uid={answer.authorId} name={answer.authorName} onOpenProfile={onOpenProfile} />
+          <ReputationBadge reputation={authorReputation} />
+          <span>&middot; {formatTimestamp(answer.createdAt, answer.createdAtMs)}</span>
+          {(answer.revisionCount ?? 0) > 0 && (
+            <EditedToggle
+              editedAt={answer.editedAt}
+              isOpen={showHistory}
+              onToggle={() => setShowHistory(!showHistory)}
+            />
+          )}
+        </span>
+      </div>
+      {showHistory && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <RevisionHistory docPath={`${getAnswersCollectionPath(questionId)}/${answer.id}`} current={answer} />
+        </div>
+      )}
+      <div className="flex items-center space-x-2 mt-3 text-sm">
+        <button
+          onClick={() => onVote?.(myVote === 1 ? 0 : 1)}
+          disabled={!onVote}
+          className={voteButtonClassName(myVote === 1)}
+          title={onVote ? 'Upvote' : voteHint}
+        >
+          <ThumbsUp size={16} />
+        </button>
+        <span className="font-semibold text-gray-700">{answer.score ?? 0}</span>
+        <button
+          onClick={() => onVote?.(myVote === -1 ? 0 : -1)}
+          disabled={!onVote}
+          className={voteButtonClassName(myVote === -1)}
+          title={onVote ? 'Downvote' : voteHint}
+        >
+          <ThumbsDown size={16} />
+        </button>
+      </div>
+      {(onToggleAccepted || (onEdit && !isEditing) || flagReporterId) && (
+        <div className="flex items-center space-x-3 mt-3 text-sm">
+          {onToggleAccepted && (
+            <button
+              onClick={onToggleAccepted}
+              className={`font-semibold ${
+                isAccepted ? 'text-gray-600 hover:text-red-500' : 'text-green-600 hover:text-green-700'
+              }`}
+            >
+              {isAccepted ? 'Unaccept' : 'Accept this answer'}
+            </button>
+          )}
+          {onEdit && !isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="flex items-center font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <Pencil size={14} className="mr-1" /> Edit
+            </button>
+          )}
+          {flagReporterId && (
+            <FlagButton reporterId={flagReporterId} questionId={questionId} answerId={answer.id} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { BODY_MAX_LENGTH } from '../constants.ts';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads.ts';
+import type { Attachment } from '../types.ts';
+import { AttachmentPicker } from './Attachments.tsx';
+import { MarkdownEditor } from './Markdown.tsx';
+
+// Keeps the draft in its own state so typing survives snapshot updates
+export const AnswerComposer: React.FC<{
+  category: string;
+  onSubmit: (answer: { body: string; attachments: Attachment[] }) => Promise<boolean>;
+}> = ({ category, onSubmit }) => {
+  const [body, setBody] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const uploads = useAttachmentUploads();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!body.trim() || isSubmitting || uploads.isUploading) return;
+    setIsSubmitting(true);
+    const ok = await onSubmit({ body: body.trim(), attachments: uploads.attachments });
+    setIsSubmitting(false);
+    if (ok) {
+      setBody('');
+      uploads.clear();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label htmlFor="answer-body" className="block text-sm font-medium text-gray-700">
+        Your verified answer ({category})
+      </label>
+      <MarkdownEditor
+        id="answer-body"
+        value={body}
+        onChange={setBody}
+        rows={5}
+        placeholder="Share your expertise. Explain the reasoning, not just the result..."
+        className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-indigo-500 focus:border-indigo-500"
+        required
+        maxLength={BODY_MAX_LENGTH}
+      />
+      <AttachmentPicker uploads={uploads} />
+      <button
+        type="submit"
+        disabled={!body.trim() || isSubmitting || uploads.isUploading}
+        className="w-full bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-4 rounded-lg transition duration-200 shadow-md flex items-center justify-center"
+      >
+        <Send size={18} className="mr-2" />
+        {isSubmitting ? 'Posting...' : 'Post Answer'}
+      </button>
+    </form>
+  );
+};
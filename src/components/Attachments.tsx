@@ -0,0 +1,134 @@
+import React, { useRef } from 'react';
+import { Download, FileSpreadsheet, FileText, Paperclip, X } from 'lucide-react';
+import { ATTACHMENT_TYPE_LABELS, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS } from '../constants.ts';
+import { getAttachmentUrl } from '../data/attachmentsRepo.ts';
+import type { AttachmentUploads } from '../hooks/useAttachmentUploads.ts';
+import { isImageType } from '../lib/attachments.ts';
+import { formatFileSize } from '../lib/format.ts';
+import type { Attachment } from '../types.ts';
+
+const FileIcon: React.FC<{ contentType: string }> = ({ contentType }) =>
+  contentType.includes('spreadsheet') || contentType.includes('excel') || contentType === 'text/csv' ? (
+    <FileSpreadsheet size={18} className="text-green-600 shrink-0" />
+  ) : (
+    <FileText size={18} className="text-indigo-600 shrink-0" />
+  );
+
+// File chooser and list for a draft; the uploads themselves run in useAttachmentUploads
+export const AttachmentPicker: React.FC<{ uploads: AttachmentUploads }> = ({ uploads }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isFull = uploads.attachments.length + uploads.uploading.length >= MAX_ATTACHMENTS;
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={Object.keys(ATTACHMENT_TYPE_LABELS).join(',')}
+        className="hidden"
+        onChange={(e) => {
+          void uploads.addFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={!!uploads.unavailableReason || isFull}
+        className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+      >
+        <Paperclip size={16} className="mr-1" /> Attach files
+      </button>
+      <p className="text-xs text-gray-500">
+        {uploads.unavailableReason ??
+          `Up to ${MAX_ATTACHMENTS} images, PDFs, text, CSV or Excel files, ${formatFileSize(MAX_ATTACHMENT_BYTES)} each.`}
+      </p>
+      {uploads.attachments.map((a) => (
+        <div key={a.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg p-2">
+          <span className="flex items-center min-w-0">
+            {a.hasThumbnail ? (
+              <img src={getAttachmentUrl(a, 'thumb')} alt="" className="w-8 h-8 object-cover rounded mr-2" />
+            ) : (
+              <span className="mr-2">
+                <FileIcon contentType={a.contentType} />
+              </span>
+            )}
+            <span className="truncate">{a.name}</span>
+            <span className="ml-2 text-xs text-gray-500 shrink-0">{formatFileSize(a.size)}</span>
+          </span>
+          <button
+            type="button"
+            onClick={() => uploads.removeAttachment(a)}
+            className="ml-2 text-gray-400 hover:text-gray-600"
+            title="Remove"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+      {uploads.uploading.map((name, i) => (
+        <p key={`${name}-${i}`} className="text-sm text-gray-500">
+          Uploading {name}...
+        </p>
+      ))}
+      {uploads.notice && <p className="text-sm text-red-600">{uploads.notice}</p>}
+    </div>
+  );
+};
+
+// Feed card preview: the first image's thumbnail and a count of the files
+export const AttachmentThumbnail: React.FC<{ attachments?: Attachment[] }> = ({ attachments }) => {
+  if (!attachments?.length) return null;
+  const image = attachments.find((a) => a.hasThumbnail);
+  return (
+    <div className="mb-3">
+      {image && (
+        <img src={getAttachmentUrl(image, 'thumb')} alt={image.name} className="w-full h-32 object-cover rounded-lg mb-1" />
+      )}
+      <p className="flex items-center text-xs text-gray-500">
+        <Paperclip size={12} className="mr-1" /> {attachments.length}{' '}
+        {attachments.length === 1 ? 'attachment' : 'attachments'}
+      </p>
+    </div>
+  );
+};
+
+// Question/answer view: images inline, other files as download links
+export const AttachmentPreviews: React.FC<{ attachments?: Attachment[] }> = ({ attachments }) => {
+  if (!attachments?.length) return null;
+  const images = attachments.filter((a) => isImageType(a.contentType));
+  const files = attachments.filter((a) => !isImageType(a.contentType));
+  return (
+    <div className="space-y-3 mb-4">
+      {images.map((a) => (
+        <a key={a.id} href={getAttachmentUrl(a)} target="_blank" rel="noreferrer" className="block">
+          <img
+            src={getAttachmentUrl(a)}
+            alt={a.name}
+            loading="lazy"
+            className="max-h-96 max-w-full rounded-lg border border-gray-200"
+          />
+        </a>
+      ))}
+      {files.map((a) => (
+        <a
+          key={a.id}
+          href={getAttachmentUrl(a)}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center justify-between text-sm bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-lg p-3"
+        >
+          <span className="flex items-center min-w-0">
+            <FileIcon contentType={a.contentType} />
+            <span className="ml-2 truncate font-medium text-gray-800">{a.name}</span>
+            <span className="ml-2 text-xs text-gray-500 shrink-0">
+              {ATTACHMENT_TYPE_LABELS[a.contentType] ?? 'File'} &middot; {formatFileSize(a.size)}
+            </span>
+          </span>
+          <Download size={16} className="ml-2 text-gray-500 shrink-0" />
+        </a>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+import React from 'react';
+
+// Author names link to public profile pages
+export const AuthorLink: React.FC<{ uid: string; name?: string | null; onOpenProfile: (uid: string) => void }> = ({
+  uid,
+  name,
+  onOpenProfile,
+}) => (
+  <button onClick={() => onOpenProfile(uid)} className="font-semibold text-gray-700 hover:text-indigo-600">
+    {name || `${uid?.substring(0, 8)}...`}
+  </button>
+);
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Gift } from 'lucide-react';
+import { BOUNTY_AMOUNTS, BOUNTY_DURATION_DAYS } from '../constants.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import type { Bounty } from '../types.ts';
+
+// Bounty status on a question, and the asker's form to offer one
+export const BountyPanel: React.FC<{
+  bounty?: Bounty;
+  canOffer: boolean; // the author, on an open question without a running bounty
+  reputation: number; // the viewer's total, which pays for the bounty
+  onOffer: (amount: number, days: number) => Promise<string | null>; // resolves to the error, if any
+}> = ({ bounty, canOffer, reputation, onOffer }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState(BOUNTY_AMOUNTS[0]);
+  const [days, setDays] = useState(BOUNTY_DURATION_DAYS[1]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    const problem = await onOffer(amount, days);
+    setIsSending(false);
+    if (problem) setError(problem);
+    else setIsOpen(false);
+  };
+
+  return (
+    <>
+      {bounty?.status === 'active' && (
+        <div className="flex items-center p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <Gift size={16} className="mr-2" />
+          <span>
+            <strong>+{bounty.amount} bounty</strong> until {formatTimestamp(bounty.deadline)}. It goes to the accepted
+            answer, or at the deadline to the top-voted answer from a verified expert.
+          </span>
+        </div>
+      )}
+      {bounty?.status === 'awarded' && (
+        <div className="flex items-center p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <Gift size={16} className="mr-2" />
+          {`+${bounty.amount} bounty awarded to the ${bounty.auto ? 'top-voted' : 'accepted'} answer.`}
+        </div>
+      )}
+      {canOffer &&
+        (!isOpen ? (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="flex items-center text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            <Gift size={16} className="mr-1" /> Offer a bounty
+          </button>
+        ) : reputation < BOUNTY_AMOUNTS[0] ? (
+          <p className="text-sm text-gray-500">
+            You need at least {BOUNTY_AMOUNTS[0]} reputation to offer a bounty; you have {reputation}.
+          </p>
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2 text-sm"
+          >
+            <p className="text-gray-600">
+              The bounty comes out of your reputation ({reputation}) now. If no answer qualifies by the deadline,
+              you get it back.
+            </p>
+            <div className="flex items-center space-x-3">
+              <select
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                className="border border-gray-300 rounded-lg p-2 bg-white"
+              >
+                {BOUNTY_AMOUNTS.map((a) => (
+                  <option key={a} value={a} disabled={a > reputation}>
+                    +{a} reputation
+                  </option>
+                ))}
+              </select>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className="border border-gray-300 rounded-lg p-2 bg-white"
+              >
+                {BOUNTY_DURATION_DAYS.map((d) => (
+                  <option key={d} value={d}>
+                    for {d} days
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={isSending || amount > reputation}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-1 px-3 rounded-lg"
+              >
+                {isSending ? 'Offering...' : 'Offer bounty'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setIsOpen(false);
+                  setError(null);
+                }}
+                className="text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            </div>
+            {error && <p className="text-red-600">{error}</p>}
+          </form>
+        ))}
+    </>
+  );
+};
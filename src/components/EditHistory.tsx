@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import type { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../auth/AuthContext.ts';
+import { BODY_MAX_LENGTH, QUESTION_TITLE_MAX_LENGTH, QUESTION_TITLE_MIN_LENGTH } from '../constants.ts';
+import * as revisionsRepo from '../data/revisionsRepo.ts';
+import { diffWords } from '../lib/diff.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import type { RevisionDoc } from '../types.ts';
+import { MarkdownEditor } from './Markdown.tsx';
+
+// Shows the Markdown source, so formatting changes are visible too
+const DiffText: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <div className="whitespace-pre-wrap font-mono text-sm p-3 bg-gray-50 rounded-lg border border-gray-200">
+      {parts.map((part, index) =>
+        part.kind === 'same' ? (
+          <span key={index}>{part.text}</span>
+        ) : (
+          <span
+            key={index}
+            className={part.kind === 'added' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700 line-through'}
+          >
+            {part.text}
+          </span>
+        ),
+      )}
+    </div>
+  );
+};
+
+// Newest edit first; each edit is diffed against the text that replaced it
+export const RevisionHistory: React.FC<{
+  docPath: string; // the edited question or answer
+  current: { title?: string; body: string };
+}> = ({ docPath, current }) => {
+  const { db } = useAuth();
+  const [revisions, setRevisions] = useState<RevisionDoc[] | null>(null);
+
+  useEffect(
+    () =>
+      revisionsRepo.subscribeRevisions(db, docPath, setRevisions, (err) => {
+        console.error('Error fetching revisions:', err);
+        setRevisions([]);
+      }),
+    [db, docPath],
+  );
+
+  if (revisions === null) return <p className="text-sm text-gray-500">Loading history...</p>;
+  if (revisions.length === 0) return <p className="text-sm text-gray-500">No earlier revisions.</p>;
+
+  return (
+    <div className="space-y-4">
+      {revisions.map((r, index) => {
+        const replacement = index === 0 ? current : revisions[index - 1];
+        return (
+          <div key={r.id} className="space-y-2">
+            <p className="text-xs text-gray-500 font-semibold">
+              Edit {r.revision} &middot; {formatTimestamp(r.editedAt)}
+            </p>
+            {r.title !== undefined && r.title !== replacement.title && (
+              <DiffText before={r.title} after={replacement.title ?? ''} />
+            )}
+            {r.body !== replacement.body && <DiffText before={r.body} after={replacement.body} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const ContentEditForm: React.FC<{
+  id: string;
+  title?: string; // questions only
+  body: string;
+  onSave: (changes: { title?: string; body: string }) => Promise<boolean>;
+  onCancel: () => void;
+}> = ({ id, title, body, onSave, onCancel }) => {
+  const [draftTitle, setDraftTitle] = useState(title ?? '');
+  const [draftBody, setDraftBody] = useState(body);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changes = { ...(title === undefined ? {} : { title: draftTitle.trim() }), body: draftBody.trim() };
+  const isUnchanged = changes.title === title && changes.body === body;
+  const isEmpty = (changes.title !== undefined && changes.title.length < QUESTION_TITLE_MIN_LENGTH) || !changes.body;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isUnchanged || isEmpty || isSaving) return;
+    setIsSaving(true);
+    const ok = await onSave(changes);
+    setIsSaving(false);
+    if (ok) onCancel();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {title !== undefined && (
+        <input
+          type="text"
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          minLength={QUESTION_TITLE_MIN_LENGTH}
+          maxLength={QUESTION_TITLE_MAX_LENGTH}
+          className="block w-full border border-gray-300 rounded-lg shadow-sm p-3 font-semibold"
+          required
+        />
+      )}
+      <MarkdownEditor
+        id={id}
+        value={draftBody}
+        onChange={setDraftBody}
+        rows={6}
+        placeholder="Body"
+        className="block w-full border border-gray-300 rounded-lg shadow-sm p-3"
+        required
+        maxLength={BODY_MAX_LENGTH}
+      />
+      <div className="flex items-center space-x-3">
+        <button
+          type="submit"
+          disabled={isUnchanged || isEmpty || isSaving}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg"
+        >
+          {isSaving ? 'Saving...' : 'Save edit'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-600 hover:text-gray-800 font-medium">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// "edited" marker that toggles the revision history
+export const EditedToggle: React.FC<{ editedAt?: Timestamp; isOpen: boolean; onToggle: () => void }> = ({
+  editedAt,
+  isOpen,
+  onToggle,
+}) => (
+  <button onClick={onToggle} className="flex items-center text-gray-500 hover:text-indigo-600" title="Show edit history">
+    <History size={14} className="mr-1" />
+    {isOpen ? 'Hide history' : `edited ${formatTimestamp(editedAt)}`}
+  </button>
+);
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Flag } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { FLAG_REASON_LABELS, MAX_FLAG_DETAILS_LENGTH } from '../constants.ts';
+import * as moderationRepo from '../data/moderationRepo.ts';
+import type { FlagReason } from '../types.ts';
+
+// Signed-in (non-guest) users report a question or answer to the moderators
+export const FlagButton: React.FC<{
+  reporterId: string;
+  questionId: string;
+  answerId?: string;
+}> = ({ reporterId, questionId, answerId }) => {
+  const { db } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<FlagReason>('spam');
+  const [details, setDetails] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setStatus('sending');
+    try {
+      await moderationRepo.flagContent(db, reporterId, { questionId, answerId, reason, details: details.trim() });
+      setStatus('sent');
+      setIsOpen(false);
+    } catch (err) {
+      // Flags can't be overwritten, so a second flag on the same content lands here too,
+      // as do flags sent within RATE_LIMIT_SECONDS.flag of the last one
+      console.error('Error flagging content:', err);
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'sent') return <span className="text-xs text-gray-500">Flagged for review</span>;
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="flex items-center text-xs text-gray-500 hover:text-red-500">
+        <Flag size={14} className="mr-1" /> Flag
+      </button>
+    );
+  }
+  return (
+    <form onSubmit={handleSubmit} className="w-full p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2 text-sm">
+      <select
+        value={reason}
+        onChange={(e) => setReason(e.target.value as FlagReason)}
+        className="block w-full border border-gray-300 rounded-lg p-2"
+      >
+        {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map((r) => (
+          <option key={r} value={r}>
+            {FLAG_REASON_LABELS[r]}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        maxLength={MAX_FLAG_DETAILS_LENGTH}
+        rows={2}
+        placeholder="Details for the moderators (optional)"
+        className="block w-full border border-gray-300 rounded-lg p-2"
+      />
+      {status === 'failed' && (
+        <p className="text-xs text-red-700">
+          Could not send the flag. You may have flagged this already, or flagged something else just now.
+        </p>
+      )}
+      <div className="flex items-center space-x-3">
+        <button
+          type="submit"
+          disabled={status === 'sending'}
+          className="bg-red-500 hover:bg-red-600 text-white font-semibold py-1 px-3 rounded-lg"
+        >
+          {status === 'sending' ? 'Sending...' : 'Send flag'}
+        </button>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
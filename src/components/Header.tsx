@@ -0,0 +1,77 @@
+import React from 'react';
+import { Award, Bell, LogIn, Settings, Shield, User as UserIcon } from 'lucide-react';
+import { Link } from 'react-router';
+import { useAuth } from '../auth/AuthContext.ts';
+import { UNREAD_COUNT_LIMIT } from '../constants.ts';
+import { paths } from '../routes.ts';
+import { AuthorLink } from './AuthorLink.tsx';
+import { ExpertBadge, ReputationBadge } from './badges.tsx';
+import { SyncStatus } from './SyncStatus.tsx';
+
+export const Header: React.FC<{ onOpenProfile: (uid: string) => void }> = ({ onOpenProfile }) => {
+  const { userId, displayName, isAnonymous, isAdmin, isModerator, activeVerifications, reputation, unreadCount } =
+    useAuth();
+
+  return (
+    <header className="bg-white shadow-md p-4 flex justify-between items-center sticky top-0 z-10">
+      <h1 className="text-3xl font-extrabold text-indigo-700 tracking-tight">
+        <Link to={paths.feed}>
+          <span className="text-indigo-500">Cross</span>point
+        </Link>
+      </h1>
+      <div className="flex items-center space-x-4">
+        <SyncStatus />
+        <ExpertBadge verifications={activeVerifications} />
+        <ReputationBadge reputation={reputation?.total} />
+        <div className="text-sm font-medium text-gray-600" title={userId || undefined}>
+          {userId ? <AuthorLink uid={userId} name={displayName} onOpenProfile={onOpenProfile} /> : 'Loading...'}
+          {isAnonymous && <span className="ml-2 text-xs p-1 bg-gray-100 rounded">Guest</span>}
+        </div>
+        <Link
+          to={paths.notifications}
+          className="relative bg-gray-100 hover:bg-gray-200 text-gray-700 p-2 rounded-lg transition duration-200"
+          title="Notifications"
+        >
+          <Bell size={18} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs font-bold px-1 rounded-full">
+              {unreadCount > UNREAD_COUNT_LIMIT ? `${UNREAD_COUNT_LIMIT}+` : unreadCount}
+            </span>
+          )}
+        </Link>
+        <Link
+          to={paths.account}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200 flex items-center"
+        >
+          {isAnonymous ? <LogIn size={18} className="mr-2" /> : <UserIcon size={18} className="mr-2" />}
+          {isAnonymous ? 'Sign In' : 'Account'}
+        </Link>
+        {isModerator && (
+          <Link
+            to={paths.moderation}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200 flex items-center"
+          >
+            <Shield size={18} className="mr-2" />
+            Moderation
+          </Link>
+        )}
+        {isAdmin && (
+          <Link
+            to={paths.admin}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200 flex items-center"
+          >
+            <Settings size={18} className="mr-2" />
+            Admin
+          </Link>
+        )}
+        <Link
+          to={paths.quiz()}
+          className="bg-purple-500 hover:bg-purple-600 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 shadow-lg flex items-center"
+        >
+          <Award size={18} className="mr-2" />
+          Take Quiz
+        </Link>
+      </div>
+    </header>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useMemo, useState } from 'react';
+import { Eye } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { renderMarkdown } from '../lib/markdown.ts';
+
+export const MarkdownBody: React.FC<{ source: string; className?: string }> = ({ source, className = '' }) => {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+  return <div className={`markdown-body ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Textarea with a live rendered preview underneath; used by the question and
+// answer composers
+export const MarkdownEditor: React.FC<{
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows: number;
+  placeholder: string;
+  required?: boolean;
+  maxLength?: number;
+  className: string;
+}> = ({ id, value, onChange, rows, placeholder, required, maxLength, className }) => {
+  const [showPreview, setShowPreview] = useState(true);
+
+  return (
+    <div>
+      <textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        placeholder={placeholder}
+        className={className}
+        required={required}
+        maxLength={maxLength}
+      />
+      <div className="flex justify-between items-center text-xs text-gray-500 mt-1">
+        <span>Markdown, ```code``` blocks and $math$ are supported.</span>
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          className="flex items-center text-indigo-600 hover:text-indigo-800"
+        >
+          <Eye size={14} className="mr-1" /> {showPreview ? 'Hide preview' : 'Show preview'}
+        </button>
+      </div>
+      {showPreview && value.trim() && (
+        <div className="mt-2 border border-gray-300 rounded-lg p-3 bg-white">
+          <MarkdownBody source={value} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Check, Gift, Send } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import { toPlainExcerpt } from '../lib/markdown.ts';
+import { getActiveVerification, isVerificationExpired } from '../lib/verifications.ts';
+import type { QuestionDoc } from '../types.ts';
+import { AttachmentThumbnail } from './Attachments.tsx';
+import { AuthorLink } from './AuthorLink.tsx';
+import { TagList } from './TagList.tsx';
+
+export const QuestionCard: React.FC<{
+  question: QuestionDoc;
+  onOpenQuestion: (questionId: string) => void;
+  onOpenProfile: (uid: string) => void;
+}> = ({ question, onOpenQuestion, onOpenProfile }) => {
+  const { verification } = useAuth();
+  const isExpert = !!getActiveVerification(verification, question.category);
+  const isExpired = isVerificationExpired(verification, question.category);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 transition duration-300 hover:shadow-xl">
+      <div className="flex justify-between items-start mb-3">
+        <span className="text-xs font-semibold uppercase text-indigo-600 bg-indigo-100 px-3 py-1 rounded-full">
+          {question.category}
+        </span>
+        <span className="flex items-center space-x-2">
+          {question.bounty?.status === 'active' && (
+            <span
+              className="flex items-center text-xs font-semibold text-yellow-800 bg-yellow-100 px-2 py-0.5 rounded-full"
+              title={`Ends ${formatTimestamp(question.bounty.deadline)}`}
+            >
+              <Gift size={14} className="mr-1" /> +{question.bounty.amount}
+            </span>
+          )}
+          {question.acceptedAnswerId && (
+            <span className="flex items-center text-xs font-semibold text-green-600">
+              <Check size={14} className="mr-1" /> Accepted answer
+            </span>
+          )}
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+              question.status === 'Open' ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'
+            }`}
+          >
+            {question.status}
+          </span>
+        </span>
+      </div>
+      <h3
+        className="text-xl font-bold text-gray-900 mb-2 cursor-pointer hover:text-indigo-600"
+        onClick={() => onOpenQuestion(question.id)}
+      >
+        {question.title}
+      </h3>
+      <p className="text-gray-600 mb-4 line-clamp-2">{toPlainExcerpt(question.body)}</p>
+      <AttachmentThumbnail attachments={question.attachments} />
+      <TagList tags={question.tags} className="mb-3" />
+      <p className="text-xs text-gray-500 mb-2">
+        {question.answerCount ?? 0} {question.answerCount === 1 ? 'answer' : 'answers'} &middot;{' '}
+        {question.voteScore ?? 0} votes
+        {(question.revisionCount ?? 0) > 0 && <> &middot; edited</>}
+      </p>
+
+      <div className="flex justify-between items-center pt-2 border-t border-gray-100">
+        <span className="text-sm text-gray-500">
+          Asked by: <AuthorLink uid={question.authorId} name={question.authorName} onOpenProfile={onOpenProfile} />
+        </span>
+        {question.status === 'Closed' ? (
+          <button
+            onClick={() => onOpenQuestion(question.id)}
+            className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            View answers
+          </button>
+        ) : isExpert ? (
+          <button
+            onClick={() => onOpenQuestion(question.id)}
+            className="bg-green-500 hover:bg-green-600 text-white text-sm font-semibold py-1.5 px-3 rounded-lg flex items-center transition duration-150"
+          >
+            <Send size={16} className="mr-1" /> Answer
+          </button>
+        ) : isExpired ? (
+          <span className="text-sm text-red-600 font-medium">Verification expired &mdash; re-verify</span>
+        ) : (
+          <span className="text-sm text-yellow-600 font-medium">Get Verified to Answer</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+
+// Keeps its own draft so typing isn't lost when the feed behind it updates
+export const QuestionSearchBox: React.FC<{
+  activeQuery: string;
+  onSearch: (text: string) => void;
+}> = ({ activeQuery, onSearch }) => {
+  const [text, setText] = useState(activeQuery);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSearch(text.trim());
+      }}
+      className="flex items-center space-x-2 max-w-6xl mx-auto px-6 pt-6"
+    >
+      <input
+        type="search"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Search questions and answers..."
+        className="flex-1 border border-gray-300 rounded-lg p-2"
+      />
+      <button
+        type="submit"
+        className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg flex items-center"
+      >
+        <Search size={18} className="mr-2" />
+        Search
+      </button>
+      {activeQuery && (
+        <button
+          type="button"
+          onClick={() => {
+            setText('');
+            onSearch('');
+          }}
+          className="text-gray-600 hover:text-gray-800 font-medium"
+        >
+          Clear
+        </button>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import type { QuizAnswer, QuizQuestion, QuizQuestionType } from '../types.ts';
+
+// One renderer per question type
+
+const optionClassName = (isSelected: boolean) =>
+  'p-4 border rounded-lg cursor-pointer transition duration-150 flex items-center justify-between' +
+  (isSelected
+    ? ' bg-indigo-100 border-indigo-500 text-indigo-700 font-semibold shadow-md'
+    : ' bg-white border-gray-200 hover:bg-gray-50');
+
+type QuizAnswerInputProps = {
+  question: QuizQuestion;
+  value: QuizAnswer;
+  onChange: (answer: QuizAnswer) => void;
+  disabled: boolean;
+};
+
+const SingleChoiceInput: React.FC<QuizAnswerInputProps> = ({ question, value, onChange, disabled }) => (
+  <div className="space-y-3">
+    {(question.options ?? []).map((option, index) => (
+      <div key={index} className={optionClassName(value === option)} onClick={() => !disabled && onChange(option)}>
+        {option}
+      </div>
+    ))}
+  </div>
+);
+
+const MultiSelectInput: React.FC<QuizAnswerInputProps> = ({ question, value, onChange, disabled }) => {
+  const selected = Array.isArray(value) ? value : [];
+  const toggle = (option: string) => {
+    if (disabled) return;
+    onChange(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option]);
+  };
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">Select all that apply.</p>
+      {(question.options ?? []).map((option, index) => (
+        <div key={index} className={optionClassName(selected.includes(option))} onClick={() => toggle(option)}>
+          {option}
+          {selected.includes(option) && <Check size={20} />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const NumericInput: React.FC<QuizAnswerInputProps> = ({ question, onChange, disabled }) => {
+  // Keep the raw text so partial input like "-" or "1." isn't clobbered
+  const [text, setText] = useState('');
+  return (
+    <div className="flex items-center space-x-2">
+      <input
+        type="number"
+        step="any"
+        value={text}
+        disabled={disabled}
+        onChange={(e) => {
+          setText(e.target.value);
+          const n = e.target.valueAsNumber;
+          onChange(Number.isFinite(n) ? n : null);
+        }}
+        placeholder="Your answer"
+        className="block w-full border border-gray-300 rounded-lg shadow-sm p-3"
+      />
+      {question.unit && <span className="text-gray-700 font-medium">{question.unit}</span>}
+    </div>
+  );
+};
+
+const TextAnswerInput: React.FC<QuizAnswerInputProps> = ({ value, onChange, disabled }) => (
+  <input
+    type="text"
+    value={typeof value === 'string' ? value : ''}
+    disabled={disabled}
+    onChange={(e) => onChange(e.target.value)}
+    placeholder="Your answer"
+    className="block w-full border border-gray-300 rounded-lg shadow-sm p-3"
+  />
+);
+
+const CodeQuestionInput: React.FC<QuizAnswerInputProps> = ({ question, value, onChange, disabled }) => (
+  <div className="space-y-3">
+    <pre className="p-4 bg-gray-900 text-white rounded-lg font-mono text-sm overflow-x-auto">
+      <code className={question.language ? `language-${question.language}` : undefined}>{question.code}</code>
+    </pre>
+    <textarea
+      value={typeof value === 'string' ? value : ''}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      rows={4}
+      placeholder="Your answer"
+      className="block w-full border border-gray-300 rounded-lg shadow-sm p-3 font-mono"
+    />
+  </div>
+);
+
+const QUIZ_ANSWER_INPUTS: Record<QuizQuestionType, React.FC<QuizAnswerInputProps>> = {
+  single: SingleChoiceInput,
+  multi: MultiSelectInput,
+  numeric: NumericInput,
+  text: TextAnswerInput,
+  code: CodeQuestionInput,
+};
+
+export const QuizAnswerInput: React.FC<QuizAnswerInputProps> = (props) => {
+  const Input = QUIZ_ANSWER_INPUTS[props.question.type] ?? SingleChoiceInput;
+  return <Input {...props} />;
+};
+
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../auth/AuthContext.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import { tokenize } from '../lib/search.ts';
+import type { QuestionDoc } from '../types.ts';
+
+const SIMILAR_QUESTION_LIMIT = 5;
+const SIMILAR_QUESTION_DELAY_MS = 400;
+
+// Possible duplicates for a question being drafted, refreshed as the title changes
+export const SimilarQuestions: React.FC<{
+  title: string;
+  onOpenQuestion: (questionId: string) => void;
+}> = ({ title, onOpenQuestion }) => {
+  const { db } = useAuth();
+  const [matches, setMatches] = useState<QuestionDoc[]>([]);
+
+  useEffect(() => {
+    if (tokenize(title).length < 2) {
+      setMatches([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      questionsRepo.searchQuestions(db, title, SIMILAR_QUESTION_LIMIT)
+        .then((results) => !cancelled && setMatches(results))
+        .catch((err) => console.error('Error finding similar questions:', err));
+    }, SIMILAR_QUESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [db, title]);
+
+  if (!matches.length) return null;
+  return (
+    <div className="mt-2 p-3 bg-yellow-100 rounded-lg text-sm">
+      <p className="font-semibold text-gray-700 mb-1">Similar questions already asked:</p>
+      <ul className="space-y-1">
+        {matches.map((q) => (
+          <li key={q.id}>
+            <button
+              type="button"
+              onClick={() => onOpenQuestion(q.id)}
+              className="text-indigo-600 hover:text-indigo-800 text-left"
+            >
+              {q.title}
+            </button>{' '}
+            <span className="text-xs text-gray-500">
+              ({q.status}, {q.answerCount ?? 0} {q.answerCount === 1 ? 'answer' : 'answers'})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+
+export const LoadingScreen: React.FC = () => (
+  <div className="flex items-center justify-center min-h-screen bg-gray-50">
+    <div className="text-lg font-medium text-indigo-600 animate-pulse">Loading Crosspoint...</div>
+  </div>
+);
+
+export const ErrorScreen: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex items-center justify-center min-h-screen bg-red-50 p-8">
+    <div className="bg-white p-6 rounded-xl shadow-lg border-l-4 border-red-500 max-w-xl">
+      <h2 className="text-xl font-bold text-red-700 mb-2">Application Error</h2>
+      <p className="text-gray-700">{message}</p>
+      <p className="text-sm text-gray-500 mt-4">Open the browser console for details and error codes.</p>
+    </div>
+  </div>
+);
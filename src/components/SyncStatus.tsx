@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { CloudOff, Wifi, WifiOff, X } from 'lucide-react';
+import { formatTimestamp } from '../lib/format.ts';
+import { useSync } from '../sync/SyncContext.ts';
+
+// Online/offline indicator; opens the list of posts still waiting to sync
+export const SyncStatus: React.FC = () => {
+  const { isOnline, pendingWrites, dismissWrite } = useSync();
+  const [isOpen, setIsOpen] = useState(false);
+  const failedCount = pendingWrites.filter((w) => w.error).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!pendingWrites.length}
+        className={`flex items-center text-xs font-semibold px-2 py-1 rounded-full ${
+          isOnline ? 'bg-green-50 text-green-700' : 'bg-yellow-100 text-yellow-800'
+        }`}
+        title={isOnline ? 'Connected' : 'Offline: new posts are saved and sent when the connection returns'}
+      >
+        {isOnline ? <Wifi size={14} className="mr-1" /> : <WifiOff size={14} className="mr-1" />}
+        {isOnline ? 'Online' : 'Offline'}
+        {pendingWrites.length > 0 && (
+          <span className={`ml-1 ${failedCount ? 'text-red-600' : ''}`}>
+            &middot; {pendingWrites.length} pending{failedCount ? `, ${failedCount} failed` : ''}
+          </span>
+        )}
+      </button>
+      {isOpen && pendingWrites.length > 0 && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 p-3 space-y-2 z-20">
+          <p className="text-xs font-semibold uppercase text-gray-500">Waiting to sync</p>
+          {pendingWrites.map((write) => (
+            <div key={write.id} className="flex items-start justify-between text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-800 truncate">
+                  {write.kind === 'question' ? 'Question' : 'Answer to'}: {write.label}
+                </p>
+                {write.error ? (
+                  <p className="text-xs text-red-600">{write.error}</p>
+                ) : (
+                  <p className="text-xs text-gray-500 flex items-center">
+                    <CloudOff size={12} className="mr-1" /> Saved {formatTimestamp(undefined, write.createdAt)}
+                  </p>
+                )}
+              </div>
+              {write.error && (
+                <button
+                  onClick={() => dismissWrite(write.id)}
+                  className="ml-2 text-gray-400 hover:text-gray-600"
+                  title="Dismiss"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
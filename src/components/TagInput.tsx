@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { MAX_TAGS_PER_QUESTION } from '../constants.ts';
+import * as tagsRepo from '../data/tagsRepo.ts';
+import { normalizeTag } from '../lib/tags.ts';
+
+const TAG_SUGGESTION_DELAY_MS = 250;
+
+// Tag picker with autocomplete. A category with sub-topics only offers (and
+// accepts) those; otherwise suggestions come from tags already in use and any
+// new tag is allowed.
+export const TagInput: React.FC<{
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  subTopics: string[];
+}> = ({ id, value, onChange, subTopics }) => {
+  const { db } = useAuth();
+  const [text, setText] = useState('');
+  const [usedTags, setUsedTags] = useState<string[]>([]);
+  const prefix = normalizeTag(text);
+  const isFull = value.length >= MAX_TAGS_PER_QUESTION;
+
+  useEffect(() => {
+    if (subTopics.length || !prefix) {
+      setUsedTags([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      tagsRepo
+        .searchTags(db, prefix)
+        .then((tags) => !cancelled && setUsedTags(tags.map((t) => t.id)))
+        .catch((err) => console.error('Error suggesting tags:', err));
+    }, TAG_SUGGESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [db, prefix, subTopics.length]);
+
+  const suggestions = (subTopics.length ? subTopics.filter((t) => t.startsWith(prefix)) : usedTags)
+    .filter((t) => !value.includes(t))
+    .slice(0, 8);
+  const isAllowed = (tag: string) => !!tag && (!subTopics.length || subTopics.includes(tag));
+
+  const addTag = (tag: string) => {
+    if (isFull || !isAllowed(tag) || value.includes(tag)) return;
+    onChange([...value, tag]);
+    setText('');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mt-1 border border-gray-300 rounded-lg shadow-sm p-2">
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center text-sm bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+              className="ml-1 text-indigo-400 hover:text-indigo-700"
+              title="Remove tag"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            id={id}
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addTag(prefix);
+              } else if (e.key === 'Backspace' && !text && value.length) {
+                onChange(value.slice(0, -1));
+              }
+            }}
+            placeholder={subTopics.length ? 'Pick a sub-topic...' : 'Add a tag...'}
+            className="flex-1 min-w-[8rem] p-1 focus:outline-none"
+          />
+        )}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addTag(tag)}
+              className="text-xs text-gray-700 bg-gray-100 hover:bg-indigo-100 px-2 py-0.5 rounded"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        Up to {MAX_TAGS_PER_QUESTION} tags.
+        {subTopics.length ? ' This category only allows its sub-topics.' : ' Press Enter to add a new tag.'}
+        {prefix && !isAllowed(prefix) && !suggestions.length && (
+          <span className="text-red-500"> "{prefix}" is not a sub-topic of this category.</span>
+        )}
+      </p>
+    </div>
+  );
+};
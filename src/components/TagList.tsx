@@ -0,0 +1,21 @@
+import React from 'react';
+import { Link } from 'react-router';
+import { paths } from '../routes.ts';
+
+// A question's tags, each linking to its tag page
+export const TagList: React.FC<{ tags?: string[]; className?: string }> = ({ tags, className = '' }) => {
+  if (!tags?.length) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          to={paths.tag(tag)}
+          className="text-xs font-medium text-gray-700 bg-gray-100 hover:bg-indigo-100 hover:text-indigo-700 px-2 py-0.5 rounded"
+        >
+          #{tag}
+        </Link>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Award, Clock, Star } from 'lucide-react';
+import type { ExpertiseLevel } from '../types.ts';
+import { formatDuration } from '../lib/format.ts';
+
+export const ExpertBadge: React.FC<{ verifications: { category: string; level: ExpertiseLevel }[] }> = ({
+  verifications = [],
+}) => {
+  if (!verifications.length) return null;
+  return (
+    <div className="flex items-center space-x-2 text-sm text-green-600 bg-green-50 p-1 px-3 rounded-full shadow-sm">
+      <Award size={16} className="text-green-500" />
+      <span className="font-semibold">Expert in:</span>
+      <span className="font-medium">
+        {verifications.map((v) => (v.level === 'Verified' ? v.category : `${v.category} (${v.level})`)).join(', ')}
+      </span>
+    </div>
+  );
+};
+
+export const ReputationBadge: React.FC<{ reputation?: number }> = ({ reputation }) => (
+  <span className="flex items-center text-sm font-semibold text-yellow-600" title="Reputation">
+    <Star size={14} className="mr-1" />
+    {reputation ?? 0}
+  </span>
+);
+export const Countdown: React.FC<{ label: string; remainingMs: number }> = ({ label, remainingMs }) => (
+  <span className={`flex items-center ${remainingMs <= 10_000 ? 'text-red-600' : 'text-gray-700'}`}>
+    <Clock size={16} className="mr-1" />
+    {label}: {formatDuration(remainingMs)}
+  </span>
+);
+
@@ -0,0 +1,15 @@
+// Env (Vite-style). Ensure .env contains VITE_* keys and restart dev server.
+
+export const firebaseConfig = {
+  apiKey: import.meta.env.VITE_apiKey ?? '',
+  authDomain: import.meta.env.VITE_authDomain ?? '',
+  projectId: import.meta.env.VITE_projectId ?? '',
+  storageBucket: import.meta.env.VITE_storageBucket ?? '',
+  messagingSenderId: import.meta.env.VITE_messagingSenderId ?? '',
+  appId: import.meta.env.VITE_appId ?? '',
+};
+
+export const APP_ID = import.meta.env.VITE_APP_ID || 'default-app-id';
+export const INITIAL_AUTH_TOKEN: string | null = import.meta.env.VITE_INITIAL_AUTH_TOKEN || null;
+// Point Auth, Firestore, Functions and Storage at the local emulator suite (firebase emulators:start)
+export const USE_EMULATORS = import.meta.env.VITE_USE_EMULATORS === 'true';
@@ -0,0 +1,70 @@
+import type { FeedFilters, FeedSort, FlagReason, NotificationType } from './types.ts';
+
+// Content limits and posting intervals; firestore.rules enforces the same values
+export const QUESTION_TITLE_MIN_LENGTH = 10;
+export const QUESTION_TITLE_MAX_LENGTH = 200;
+export const BODY_MAX_LENGTH = 20_000;
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+export const TAG_MAX_LENGTH = 30;
+export const MAX_TAGS_PER_QUESTION = 5;
+// The Following feed matches with array-contains-any, which takes 30 values
+export const MAX_FOLLOWED_TAGS = 30;
+export const MAX_SUB_TOPICS = 50;
+// Attachments; storage.rules enforces the same sizes and types
+export const MAX_ATTACHMENTS = 4;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 200 * 1024;
+export const ATTACHMENT_NAME_MAX_LENGTH = 255;
+export const THUMBNAIL_SIZE = 320; // px, longest side
+export const ATTACHMENT_TYPE_LABELS: Record<string, string> = {
+  'image/png': 'PNG image',
+  'image/jpeg': 'JPEG image',
+  'image/gif': 'GIF image',
+  'image/webp': 'WebP image',
+  'application/pdf': 'PDF',
+  'text/plain': 'Text file',
+  'text/csv': 'CSV',
+  'application/vnd.ms-excel': 'Excel spreadsheet',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Excel spreadsheet',
+};
+export const RATE_LIMIT_SECONDS = {
+  question: { account: 60, guest: 300 },
+  answer: { account: 30, guest: 120 },
+  flag: { account: 10, guest: 10 },
+};
+
+export const describeRateLimit = (kind: keyof typeof RATE_LIMIT_SECONDS, isGuest: boolean) => {
+  const seconds = RATE_LIMIT_SECONDS[kind][isGuest ? 'guest' : 'account'];
+  return seconds >= 60 ? `${seconds / 60} ${seconds === 60 ? 'minute' : 'minutes'}` : `${seconds} seconds`;
+};
+
+// Must match offerBounty in functions/src/index.ts
+export const BOUNTY_AMOUNTS = [50, 100, 200, 500];
+export const BOUNTY_DURATION_DAYS = [3, 7, 14];
+
+export const DEFAULT_FEED_FILTERS: FeedFilters = { category: 'All', status: 'All', sort: 'newest' };
+
+export const FEED_SORT_LABELS: Record<FeedSort, string> = {
+  newest: 'Newest',
+  votes: 'Most votes',
+  answers: 'Most answers',
+};
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['answer', 'accepted', 'vote', 'question', 'tag', 'bounty'];
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  answer: 'New answers to my questions',
+  accepted: 'My answers being accepted',
+  vote: 'Votes on my answers',
+  question: 'New questions in my expert categories',
+  tag: 'New questions with tags I follow',
+  bounty: 'Bounties awarded to my answers',
+};
+export const UNREAD_COUNT_LIMIT = 99; // the badge shows "99+" beyond this
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  spam: 'Spam or advertising',
+  offensive: 'Rude or offensive',
+  incorrect: 'Dangerously incorrect',
+  other: 'Something else',
+};
+export const MAX_FLAG_DETAILS_LENGTH = 500;
@@ -0,0 +1,115 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getCountFromServer,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import { httpsCallable, type Functions } from 'firebase/functions';
+import { APP_ID } from '../config.ts';
+import { DISPLAY_NAME_MAX_LENGTH } from '../constants.ts';
+import type { AnswerDoc, Attachment, CastVoteRequest, CastVoteResponse, QuestionDoc, VoteValue } from '../types.ts';
+import { answerConverter } from './converters.ts';
+import { getAnswersCollectionPath } from './paths.ts';
+import { stampRateLimit } from './rateLimits.ts';
+import { editWithRevision } from './revisionsRepo.ts';
+
+const PROFILE_ANSWER_HISTORY_LIMIT = 20;
+
+const answersCollection = (db: Firestore, questionId: string) =>
+  collection(db, getAnswersCollectionPath(questionId)).withConverter(answerConverter);
+
+// Oldest first, so a thread reads top to bottom
+export const subscribeAnswers = (
+  db: Firestore,
+  questionId: string,
+  onNext: (answers: AnswerDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(answersCollection(db, questionId), orderBy('createdAt', 'asc')),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data())),
+    onError,
+  );
+
+// null once the answer turns out not to exist
+export const subscribeAnswer = (
+  db: Firestore,
+  questionId: string,
+  answerId: string,
+  onNext: (answer: AnswerDoc | null) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(doc(answersCollection(db, questionId), answerId), (snap) => onNext(snap.data() ?? null), onError);
+
+// Returns the new doc's path with the commit, like createQuestion
+export const postAnswer = (
+  db: Firestore,
+  author: { uid: string; displayName: string | null },
+  question: QuestionDoc,
+  answer: { body: string; attachments: Attachment[] },
+) => {
+  const batch = writeBatch(db);
+  const ref = doc(collection(db, getAnswersCollectionPath(question.id)));
+  batch.set(ref, {
+    questionId: question.id,
+    questionTitle: question.title,
+    ...answer,
+    authorId: author.uid,
+    authorName: author.displayName?.slice(0, DISPLAY_NAME_MAX_LENGTH) ?? null,
+    category: question.category,
+    createdAt: serverTimestamp(),
+    createdAtMs: Date.now(),
+  });
+  stampRateLimit(batch, db, author.uid, 'lastAnswerAt');
+  return { path: ref.path, commit: batch.commit() };
+};
+
+export const editAnswer = (db: Firestore, questionId: string, answerId: string, body: string, editorId: string) =>
+  editWithRevision(db, doc(db, getAnswersCollectionPath(questionId), answerId), { body }, editorId);
+
+// The user's votes on a question's answers, keyed by answer id
+export const subscribeMyVotes = (
+  db: Firestore,
+  uid: string,
+  questionId: string,
+  onNext: (votes: Record<string, VoteValue>) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(collectionGroup(db, 'votes'), where('uid', '==', uid), where('questionId', '==', questionId)),
+    (snapshot) =>
+      onNext(
+        Object.fromEntries(snapshot.docs.map((d) => [d.ref.parent.parent?.id ?? '', d.get('value') as VoteValue])),
+      ),
+    onError,
+  );
+
+export const castVote = (functions: Functions, request: Omit<CastVoteRequest, 'appId'>) =>
+  httpsCallable<CastVoteRequest, CastVoteResponse>(functions, 'castVote')({ appId: APP_ID, ...request });
+
+// History and counts come straight from the answers (collection group), so
+// there are no counters to keep in sync.
+export const fetchAnswerHistory = async (db: Firestore, uid: string) => {
+  const answersByAuthor = query(
+    collectionGroup(db, 'answers').withConverter(answerConverter),
+    where('authorId', '==', uid),
+  );
+  const [history, total, accepted] = await Promise.all([
+    getDocs(query(answersByAuthor, orderBy('createdAt', 'desc'), limit(PROFILE_ANSWER_HISTORY_LIMIT))),
+    getCountFromServer(answersByAuthor),
+    getCountFromServer(query(answersByAuthor, where('accepted', '==', true))),
+  ]);
+  return {
+    answers: history.docs.map((d) => d.data()),
+    counts: { answers: total.data().count, accepted: accepted.data().count },
+  };
+};
@@ -0,0 +1,51 @@
+import { deleteObject, ref, uploadBytes, type FirebaseStorage } from 'firebase/storage';
+import { firebaseConfig, USE_EMULATORS } from '../config.ts';
+import { ATTACHMENT_NAME_MAX_LENGTH } from '../constants.ts';
+import { createThumbnail, isImageType } from '../lib/attachments.ts';
+import type { Attachment } from '../types.ts';
+import { getAttachmentPath } from './paths.ts';
+
+// Same host as connectStorageEmulator in AuthProvider
+const STORAGE_ORIGIN = USE_EMULATORS ? 'http://127.0.0.1:9199' : 'https://firebasestorage.googleapis.com';
+
+// Attachments are publicly readable (storage.rules), so the plain media URL
+// works without a download token
+export const getAttachmentUrl = (attachment: Attachment, variant: 'file' | 'thumb' = 'file') =>
+  `${STORAGE_ORIGIN}/v0/b/${firebaseConfig.storageBucket}/o/` +
+  `${encodeURIComponent(`${attachment.path}/${variant}`)}?alt=media`;
+
+// Uploads the file (and a thumbnail for images) under the user's folder.
+// Uploads need a connection; the Firestore offline queue doesn't cover Storage.
+export const uploadAttachment = async (storage: FirebaseStorage, uid: string, file: File): Promise<Attachment> => {
+  const id = crypto.randomUUID();
+  const path = getAttachmentPath(uid, id);
+  await uploadBytes(ref(storage, `${path}/file`), file, {
+    contentType: file.type,
+    contentDisposition: `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+  });
+  const thumbnail = isImageType(file.type) ? await createThumbnail(file) : null;
+  if (thumbnail) {
+    try {
+      await uploadBytes(ref(storage, `${path}/thumb`), thumbnail, { contentType: 'image/jpeg' });
+    } catch (e) {
+      // Nothing refers to the file yet, so don't leave it behind. The upload
+      // error is the one the caller reports.
+      await deleteObject(ref(storage, `${path}/file`)).catch(() => undefined);
+      throw e;
+    }
+  }
+  return {
+    id,
+    name: file.name.slice(0, ATTACHMENT_NAME_MAX_LENGTH),
+    contentType: file.type,
+    size: file.size,
+    path,
+    hasThumbnail: !!thumbnail,
+  };
+};
+
+// For uploads that never got posted; posted ones are cleaned up by moderateContent
+export const deleteAttachment = async (storage: FirebaseStorage, attachment: Attachment) => {
+  await deleteObject(ref(storage, `${attachment.path}/file`));
+  if (attachment.hasThumbnail) await deleteObject(ref(storage, `${attachment.path}/thumb`));
+};
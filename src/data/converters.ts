@@ -0,0 +1,75 @@
+import type {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  WithFieldValue,
+} from 'firebase/firestore';
+import { toAttachments } from '../lib/attachments.ts';
+import { isTag } from '../lib/tags.ts';
+import type {
+  AnswerDoc,
+  BankQuestion,
+  FlagDoc,
+  HiddenContentDoc,
+  ModerationLogDoc,
+  NotificationDoc,
+  ProfileDoc,
+  QuestionDoc,
+  QuizAttemptDoc,
+  QuizBankDoc,
+  ReputationDoc,
+  RevisionDoc,
+  TagDoc,
+  VerificationDoc,
+} from '../types.ts';
+
+// Every document type carries its Firestore id; the converters fill it in on
+// read and leave it out on write so it never ends up stored as a field.
+const withId = <T extends { id: string }>(
+  fill: (data: DocumentData, snap: QueryDocumentSnapshot) => Omit<T, 'id'> = (data) => data as Omit<T, 'id'>,
+): FirestoreDataConverter<T> => ({
+  toFirestore: (value: WithFieldValue<T>) => {
+    const data: DocumentData = { ...value };
+    delete data.id;
+    return data;
+  },
+  fromFirestore: (snap: QueryDocumentSnapshot, options?: SnapshotOptions) =>
+    ({ ...fill(snap.data(options), snap), id: snap.id }) as T,
+});
+
+export const questionConverter = withId<QuestionDoc>((data) => ({
+  ...(data as Omit<QuestionDoc, 'id'>),
+  tags: Array.isArray(data.tags) ? data.tags.filter(isTag) : [],
+  attachments: toAttachments(data.attachments),
+}));
+
+// Answers written before questionId was copied onto them get it from the parent path
+export const answerConverter = withId<AnswerDoc>((data, snap) => ({
+  ...(data as Omit<AnswerDoc, 'id'>),
+  questionId: (data.questionId as string | undefined) ?? snap.ref.parent.parent?.id,
+  attachments: toAttachments(data.attachments),
+}));
+
+export const verificationConverter = withId<VerificationDoc>((data) => ({
+  ...(data as Omit<VerificationDoc, 'id'>),
+  verifiedCategories: (data.verifiedCategories as string[] | undefined) ?? [],
+}));
+
+export const profileConverter = withId<ProfileDoc>();
+export const reputationConverter = withId<ReputationDoc>();
+export const revisionConverter = withId<RevisionDoc>();
+export const notificationConverter = withId<NotificationDoc>();
+export const flagConverter = withId<FlagDoc>();
+export const hiddenContentConverter = withId<HiddenContentDoc>((data) => ({
+  ...(data as Omit<HiddenContentDoc, 'id'>),
+  content: {
+    ...(data.content as HiddenContentDoc['content']),
+    attachments: toAttachments((data.content as { attachments?: unknown } | undefined)?.attachments),
+  },
+}));
+export const moderationLogConverter = withId<ModerationLogDoc>();
+export const quizBankConverter = withId<QuizBankDoc>();
+export const quizAttemptConverter = withId<QuizAttemptDoc>();
+export const bankQuestionConverter = withId<BankQuestion>();
+export const tagConverter = withId<TagDoc>();
@@ -0,0 +1,113 @@
+import {
+  collection,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import { httpsCallable, type Functions } from 'firebase/functions';
+import { APP_ID } from '../config.ts';
+import type {
+  FlagDoc,
+  FlagReason,
+  HiddenContentDoc,
+  ModerateContentRequest,
+  ModerationLogDoc,
+  RevokeVerificationRequest,
+  SetModeratorRequest,
+} from '../types.ts';
+import { flagConverter, hiddenContentConverter, moderationLogConverter } from './converters.ts';
+import { getPublicCollectionPath } from './paths.ts';
+import { stampRateLimit } from './rateLimits.ts';
+
+const MODERATION_LIST_LIMIT = 100;
+
+const getTargetKey = (questionId: string, answerId?: string | null) =>
+  answerId ? `${questionId}_${answerId}` : questionId;
+
+// One flag per reporter and target: the id is `{targetKey}_{reporterId}`
+export const flagContent = async (
+  db: Firestore,
+  reporterId: string,
+  flag: { questionId: string; answerId?: string; reason: FlagReason; details: string },
+) => {
+  const targetKey = getTargetKey(flag.questionId, flag.answerId);
+  const batch = writeBatch(db);
+  batch.set(doc(db, getPublicCollectionPath('flags'), `${targetKey}_${reporterId}`), {
+    targetKey,
+    questionId: flag.questionId,
+    answerId: flag.answerId ?? null,
+    reason: flag.reason,
+    details: flag.details,
+    reporterId,
+    status: 'open',
+    createdAt: serverTimestamp(),
+  });
+  stampRateLimit(batch, db, reporterId, 'lastFlagAt');
+  await batch.commit();
+};
+
+// Newest first
+export const subscribeOpenFlags = (
+  db: Firestore,
+  onNext: (flags: FlagDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      collection(db, getPublicCollectionPath('flags')).withConverter(flagConverter),
+      where('status', '==', 'open'),
+      orderBy('createdAt', 'desc'),
+      limit(MODERATION_LIST_LIMIT),
+    ),
+    (snap) => onNext(snap.docs.map((d) => d.data())),
+    onError,
+  );
+
+export const subscribeHiddenContent = (
+  db: Firestore,
+  onNext: (hidden: HiddenContentDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      collection(db, getPublicCollectionPath('hidden_content')).withConverter(hiddenContentConverter),
+      orderBy('hiddenAt', 'desc'),
+      limit(MODERATION_LIST_LIMIT),
+    ),
+    (snap) => onNext(snap.docs.map((d) => d.data())),
+    onError,
+  );
+
+export const subscribeModerationLog = (
+  db: Firestore,
+  onNext: (log: ModerationLogDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      collection(db, getPublicCollectionPath('moderation_log')).withConverter(moderationLogConverter),
+      orderBy('createdAt', 'desc'),
+      limit(MODERATION_LIST_LIMIT),
+    ),
+    (snap) => onNext(snap.docs.map((d) => d.data())),
+    onError,
+  );
+
+export const moderateContent = (functions: Functions, request: Omit<ModerateContentRequest, 'appId'>) =>
+  httpsCallable<ModerateContentRequest, { ok: true }>(functions, 'moderateContent')({ appId: APP_ID, ...request });
+
+export const revokeVerification = (functions: Functions, request: Omit<RevokeVerificationRequest, 'appId'>) =>
+  httpsCallable<RevokeVerificationRequest, { ok: true }>(functions, 'revokeVerification')({
+    appId: APP_ID,
+    ...request,
+  });
+
+export const setModerator = (functions: Functions, request: Omit<SetModeratorRequest, 'appId'>) =>
+  httpsCallable<SetModeratorRequest, { ok: true }>(functions, 'setModerator')({ appId: APP_ID, ...request });
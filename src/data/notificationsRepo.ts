@@ -0,0 +1,72 @@
+import {
+  collection,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import { UNREAD_COUNT_LIMIT } from '../constants.ts';
+import type { NotificationDoc, NotificationPrefsDoc } from '../types.ts';
+import { notificationConverter } from './converters.ts';
+import { getNotificationsPath, getPublicCollectionPath } from './paths.ts';
+
+const NOTIFICATION_LIST_LIMIT = 50;
+
+const prefsRef = (db: Firestore, uid: string) => doc(db, getPublicCollectionPath('notification_prefs'), uid);
+
+// Newest first
+export const subscribeNotifications = (
+  db: Firestore,
+  uid: string,
+  onNext: (items: NotificationDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      collection(db, getNotificationsPath(uid)).withConverter(notificationConverter),
+      orderBy('createdAt', 'desc'),
+      limit(NOTIFICATION_LIST_LIMIT),
+    ),
+    (snap) => onNext(snap.docs.map((d) => d.data())),
+    onError,
+  );
+
+// Counts up to UNREAD_COUNT_LIMIT + 1, enough for the Header badge
+export const subscribeUnreadCount = (
+  db: Firestore,
+  uid: string,
+  onNext: (count: number) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(collection(db, getNotificationsPath(uid)), where('read', '==', false), limit(UNREAD_COUNT_LIMIT + 1)),
+    (snap) => onNext(snap.size),
+    onError,
+  );
+
+export const subscribePrefs = (
+  db: Firestore,
+  uid: string,
+  onNext: (prefs: NotificationPrefsDoc) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(prefsRef(db, uid), (snap) => onNext((snap.data() as NotificationPrefsDoc | undefined) ?? {}), onError);
+
+export const markRead = (db: Firestore, uid: string, ids: string[]) => {
+  const batch = writeBatch(db);
+  ids.forEach((id) => batch.update(doc(db, getNotificationsPath(uid), id), { read: true }));
+  return batch.commit();
+};
+
+export const setMuted = (
+  db: Firestore,
+  uid: string,
+  key: 'mutedTypes' | 'mutedCategories',
+  values: string[],
+) => setDoc(prefsRef(db, uid), { [key]: values, updatedAt: serverTimestamp() }, { merge: true });
@@ -0,0 +1,17 @@
+import { APP_ID } from '../config.ts';
+
+export const getPublicCollectionPath = (collectionName: string) =>
+  `artifacts/${APP_ID}/public/data/${collectionName}`;
+
+// Answers live in a subcollection under each question doc
+export const getAnswersCollectionPath = (questionId: string) =>
+  `${getPublicCollectionPath('questions')}/${questionId}/answers`;
+
+export const getNotificationsPath = (uid: string) => `${getPublicCollectionPath('notifications')}/${uid}/items`;
+
+export const getBankQuestionsPath = (category: string) =>
+  `${getPublicCollectionPath('quiz_banks')}/${category}/questions`;
+
+// Uploads sit outside public/data: Storage paths, not Firestore collections
+export const getAttachmentPath = (uid: string, attachmentId: string) =>
+  `artifacts/${APP_ID}/attachments/${uid}/${attachmentId}`;
@@ -0,0 +1,72 @@
+import {
+  collection,
+  doc,
+  documentId,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import type { ProfileDoc, ReputationDoc } from '../types.ts';
+import { profileConverter, reputationConverter } from './converters.ts';
+import { getPublicCollectionPath } from './paths.ts';
+
+// 'in' takes at most 30 values per query
+const MAX_IN_VALUES = 30;
+
+export const subscribeProfile = (
+  db: Firestore,
+  uid: string,
+  onNext: (profile: ProfileDoc | null) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    doc(db, getPublicCollectionPath('profiles'), uid).withConverter(profileConverter),
+    (snap) => onNext(snap.data() ?? null),
+    onError,
+  );
+
+// Publishes the display name to the public profile (verifications there are
+// written by gradeQuiz)
+export const publishDisplayName = (db: Firestore, uid: string, displayName: string) =>
+  setDoc(
+    doc(db, getPublicCollectionPath('profiles'), uid),
+    { displayName, updatedAt: serverTimestamp() },
+    { merge: true },
+  );
+
+export const subscribeReputation = (
+  db: Firestore,
+  uid: string,
+  onNext: (reputation: ReputationDoc | null) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    doc(db, getPublicCollectionPath('reputation'), uid).withConverter(reputationConverter),
+    (snap) => onNext(snap.data() ?? null),
+    onError,
+  );
+
+// Reputation totals keyed by uid; users without reputation are left out
+export const fetchReputationTotals = async (db: Firestore, uids: string[]) => {
+  const chunks = Array.from({ length: Math.ceil(uids.length / MAX_IN_VALUES) }, (_, i) =>
+    uids.slice(i * MAX_IN_VALUES, (i + 1) * MAX_IN_VALUES),
+  );
+  const snaps = await Promise.all(
+    chunks.map((ids) =>
+      getDocs(
+        query(
+          collection(db, getPublicCollectionPath('reputation')).withConverter(reputationConverter),
+          where(documentId(), 'in', ids),
+        ),
+      ),
+    ),
+  );
+  return Object.fromEntries(
+    snaps.flatMap((snap) => snap.docs.map((d) => [d.id, d.data().total])),
+  ) as Record<string, number>;
+};
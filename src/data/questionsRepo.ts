@@ -0,0 +1,212 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+  type FirestoreError,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+} from 'firebase/firestore';
+import { httpsCallable, type Functions } from 'firebase/functions';
+import { APP_ID } from '../config.ts';
+import { DISPLAY_NAME_MAX_LENGTH } from '../constants.ts';
+import { tokenize } from '../lib/search.ts';
+import type { Attachment, FeedFilters, OfferBountyRequest, QuestionDoc } from '../types.ts';
+import { questionConverter } from './converters.ts';
+import { getAnswersCollectionPath, getPublicCollectionPath } from './paths.ts';
+import { stampRateLimit } from './rateLimits.ts';
+import { editWithRevision } from './revisionsRepo.ts';
+
+const FEED_PAGE_SIZE = 20;
+const BOUNTY_LIST_LIMIT = 50;
+
+// array-contains-any takes at most 30 values
+const MAX_QUERY_TOKENS = 30;
+const SEARCH_CANDIDATE_LIMIT = 100;
+const SEARCH_RESULT_LIMIT = 20;
+
+const questionsCollection = (db: Firestore) =>
+  collection(db, getPublicCollectionPath('questions')).withConverter(questionConverter);
+
+const questionRef = (db: Firestore, questionId: string) => doc(questionsCollection(db), questionId);
+
+export type FeedCursor = QueryDocumentSnapshot<QuestionDoc>;
+
+export type FeedPage = {
+  questions: QuestionDoc[];
+  cursor: FeedCursor | null; // last doc of the page, to continue after
+  isFull: boolean; // a full page means there may be more
+};
+
+// Every combination used here has a composite index in firestore.indexes.json
+const buildFeedQuery = (db: Firestore, filters: FeedFilters, cursor?: FeedCursor) => {
+  const constraints = [];
+  if (filters.category !== 'All') constraints.push(where('category', '==', filters.category));
+  if (filters.status === 'Unanswered') {
+    constraints.push(where('answerCount', '==', 0));
+  } else if (filters.status !== 'All') {
+    constraints.push(where('status', '==', filters.status));
+  }
+  // Ties (and the degenerate "most answers" among unanswered) fall back to newest
+  if (filters.sort === 'votes') constraints.push(orderBy('voteScore', 'desc'));
+  if (filters.sort === 'answers' && filters.status !== 'Unanswered') constraints.push(orderBy('answerCount', 'desc'));
+  constraints.push(orderBy('createdAt', 'desc'));
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(FEED_PAGE_SIZE));
+  return query(questionsCollection(db), ...constraints);
+};
+
+const toFeedPage = (snapshot: QuerySnapshot<QuestionDoc>): FeedPage => ({
+  questions: snapshot.docs.map((d) => d.data()),
+  cursor: snapshot.docs[snapshot.docs.length - 1] ?? null,
+  isFull: snapshot.docs.length === FEED_PAGE_SIZE,
+});
+
+// The first page of the feed, live
+export const subscribeFeedPage = (
+  db: Firestore,
+  filters: FeedFilters,
+  onNext: (page: FeedPage) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(buildFeedQuery(db, filters), (snapshot) => onNext(toFeedPage(snapshot)), onError);
+
+// A later page, fetched once
+export const fetchFeedPage = async (db: Firestore, filters: FeedFilters, cursor: FeedCursor) =>
+  toFeedPage(await getDocs(buildFeedQuery(db, filters, cursor)));
+
+// Active bounties, soonest deadline first (index in firestore.indexes.json)
+export const subscribeBounties = (
+  db: Firestore,
+  onNext: (questions: QuestionDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      questionsCollection(db),
+      where('bounty.status', '==', 'active'),
+      orderBy('bounty.deadline', 'asc'),
+      limit(BOUNTY_LIST_LIMIT),
+    ),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data())),
+    onError,
+  );
+
+// Newest questions carrying any of the tags (at most 30, see MAX_FOLLOWED_TAGS)
+export const subscribeTaggedQuestions = (
+  db: Firestore,
+  tags: string[],
+  onNext: (questions: QuestionDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      questionsCollection(db),
+      where('tags', 'array-contains-any', tags),
+      orderBy('createdAt', 'desc'),
+      limit(FEED_PAGE_SIZE),
+    ),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data())),
+    onError,
+  );
+
+// null once the question turns out not to exist
+export const subscribeQuestion = (
+  db: Firestore,
+  questionId: string,
+  onNext: (question: QuestionDoc | null) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(questionRef(db, questionId), (snap) => onNext(snap.data() ?? null), onError);
+
+// Fetches questions sharing any token with the text, then ranks them: title
+// matches weigh most, then body/answer matches, then votes and recency.
+export const searchQuestions = async (db: Firestore, text: string, max = SEARCH_RESULT_LIMIT) => {
+  const tokens = Array.from(new Set(tokenize(text))).slice(0, MAX_QUERY_TOKENS);
+  if (!tokens.length) return [];
+  const snapshot = await getDocs(
+    query(questionsCollection(db), where('searchTokens', 'array-contains-any', tokens), limit(SEARCH_CANDIDATE_LIMIT)),
+  );
+  const phrase = text.trim().toLowerCase();
+  return snapshot.docs
+    .map((d) => d.data())
+    .filter((q) => !q.hidden)
+    .map((q) => {
+      const titleHits = tokens.filter((t) => q.titleTokens?.includes(t)).length;
+      const hits = tokens.filter((t) => q.searchTokens?.includes(t)).length;
+      const phraseBonus = phrase.length > 3 && q.title.toLowerCase().includes(phrase) ? tokens.length : 0;
+      return { question: q, rank: hits + 2 * titleHits + phraseBonus };
+    })
+    .sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        (b.question.voteScore ?? 0) - (a.question.voteScore ?? 0) ||
+        (b.question.createdAt?.toMillis() ?? 0) - (a.question.createdAt?.toMillis() ?? 0),
+    )
+    .slice(0, max)
+    .map((r) => r.question);
+};
+
+// Returns the new doc's path with the commit, so a post made offline can be
+// checked once it has synced
+export const createQuestion = (
+  db: Firestore,
+  author: { uid: string; displayName: string | null },
+  question: Pick<QuestionDoc, 'title' | 'body' | 'category'> & { tags: string[]; attachments: Attachment[] },
+) => {
+  const batch = writeBatch(db);
+  const ref = doc(collection(db, getPublicCollectionPath('questions')));
+  batch.set(ref, {
+    ...question,
+    authorId: author.uid,
+    authorName: author.displayName?.slice(0, DISPLAY_NAME_MAX_LENGTH) ?? null,
+    createdAt: serverTimestamp(),
+    createdAtMs: Date.now(),
+    status: 'Open',
+    acceptedAnswerId: null,
+    answerCount: 0,
+    voteScore: 0,
+  });
+  stampRateLimit(batch, db, author.uid, 'lastQuestionAt');
+  return { path: ref.path, commit: batch.commit() };
+};
+
+export const setQuestionStatus = (db: Firestore, questionId: string, status: QuestionDoc['status']) =>
+  updateDoc(questionRef(db, questionId), { status });
+
+// Accepting closes the question; the answer's `accepted` flag mirrors
+// acceptedAnswerId so profiles can count accepted answers. One transaction
+// keeps both in step (the rules check them together). The previously accepted
+// answer may have been deleted by a moderator since; it's only unflagged if
+// it's still there.
+export const acceptAnswer = (db: Firestore, question: QuestionDoc, answerId: string | null) =>
+  runTransaction(db, async (tx) => {
+    const current = await tx.get(questionRef(db, question.id));
+    const previousId = current.data()?.acceptedAnswerId;
+    const previousRef = previousId ? doc(db, getAnswersCollectionPath(question.id), previousId) : null;
+    const previous = previousRef ? await tx.get(previousRef) : null;
+    tx.update(questionRef(db, question.id), {
+      acceptedAnswerId: answerId,
+      ...(answerId ? { status: 'Closed' } : {}),
+    });
+    if (previousRef && previous?.exists()) tx.update(previousRef, { accepted: false });
+    if (answerId) tx.update(doc(db, getAnswersCollectionPath(question.id), answerId), { accepted: true });
+  });
+
+export const editQuestion = (
+  db: Firestore,
+  questionId: string,
+  changes: { title?: string; body: string },
+  editorId: string,
+) => editWithRevision(db, doc(db, getPublicCollectionPath('questions'), questionId), changes, editorId);
+
+export const offerBounty = (functions: Functions, request: Omit<OfferBountyRequest, 'appId'>) =>
+  httpsCallable<OfferBountyRequest, { ok: true }>(functions, 'offerBounty')({ appId: APP_ID, ...request });
@@ -0,0 +1,229 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import { httpsCallable, type Functions } from 'firebase/functions';
+import { APP_ID } from '../config.ts';
+import {
+  DEFAULT_COOLDOWN_MINUTES,
+  DEFAULT_QUESTIONS_PER_ATTEMPT,
+  DEFAULT_VALIDITY_DAYS,
+  QUIZ_BANK_EXPORT_VERSION,
+  toBankQuestion,
+} from '../lib/quizBanks.ts';
+import type {
+  BankQuestion,
+  GradeQuizRequest,
+  GradeQuizResponse,
+  QuizAttemptDoc,
+  QuizBankDoc,
+  QuizBankExport,
+  StartQuizRequest,
+  StartQuizResponse,
+} from '../types.ts';
+import { bankQuestionConverter, quizAttemptConverter, quizBankConverter } from './converters.ts';
+import { getBankQuestionsPath, getPublicCollectionPath } from './paths.ts';
+
+const OWN_ATTEMPTS_LIMIT = 20;
+const CATEGORY_ATTEMPTS_LIMIT = 25;
+// Firestore batches cap at 500 writes
+const IMPORT_BATCH_SIZE = 400;
+
+export type BankSettingKey =
+  | 'questionsPerAttempt'
+  | 'cooldownMinutes'
+  | 'perQuestionSeconds'
+  | 'totalSeconds'
+  | 'validityDays';
+
+const banksCollection = (db: Firestore) =>
+  collection(db, getPublicCollectionPath('quiz_banks')).withConverter(quizBankConverter);
+
+const bankQuestionsCollection = (db: Firestore, category: string) =>
+  collection(db, getBankQuestionsPath(category)).withConverter(bankQuestionConverter);
+
+const attemptsCollection = (db: Firestore) =>
+  collection(db, getPublicCollectionPath('quiz_attempts')).withConverter(quizAttemptConverter);
+
+const byCategory = (a: QuizBankDoc, b: QuizBankDoc) => a.category.localeCompare(b.category);
+
+// -------------------------------------------------------------
+// Banks and their questions
+// -------------------------------------------------------------
+
+// Active banks drive both the quiz picker and the post category list
+export const subscribeActiveBanks = (
+  db: Firestore,
+  onNext: (banks: QuizBankDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(banksCollection(db), where('active', '==', true)),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data()).sort(byCategory)),
+    onError,
+  );
+
+// Every bank, including inactive ones (admin only)
+export const subscribeAllBanks = (
+  db: Firestore,
+  onNext: (banks: QuizBankDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(banksCollection(db), (snapshot) => onNext(snapshot.docs.map((d) => d.data()).sort(byCategory)), onError);
+
+export const subscribeBankQuestions = (
+  db: Firestore,
+  category: string,
+  onNext: (questions: BankQuestion[]) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(bankQuestionsCollection(db, category), (snapshot) => onNext(snapshot.docs.map((d) => d.data())), onError);
+
+export const createBank = (db: Firestore, category: string) =>
+  setDoc(
+    doc(db, getPublicCollectionPath('quiz_banks'), category),
+    {
+      category,
+      active: true,
+      questionsPerAttempt: DEFAULT_QUESTIONS_PER_ATTEMPT,
+      cooldownMinutes: DEFAULT_COOLDOWN_MINUTES,
+      validityDays: DEFAULT_VALIDITY_DAYS,
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true },
+  );
+
+export const setBankActive = (db: Firestore, category: string, active: boolean) =>
+  updateDoc(doc(db, getPublicCollectionPath('quiz_banks'), category), { active, updatedAt: serverTimestamp() });
+
+// 0 turns a time limit off
+export const updateBankSetting = (db: Firestore, category: string, key: BankSettingKey, value: number) =>
+  updateDoc(doc(db, getPublicCollectionPath('quiz_banks'), category), {
+    [key]: (key === 'perQuestionSeconds' || key === 'totalSeconds') && value === 0 ? null : value,
+    updatedAt: serverTimestamp(),
+  });
+
+// Tags allowed on the category's questions; an empty list allows any tag
+export const setBankSubTopics = (db: Firestore, category: string, subTopics: string[]) =>
+  updateDoc(doc(db, getPublicCollectionPath('quiz_banks'), category), { subTopics, updatedAt: serverTimestamp() });
+
+// Creates the question when it has no id yet. An edit keeps the stored
+// `retired` flag; set() rather than update() so fields from a previous type
+// don't linger.
+export const saveBankQuestion = (db: Firestore, category: string, question: BankQuestion, retired: boolean) => {
+  const { id, ...fields } = toBankQuestion(question);
+  const data = { ...fields, retired, updatedAt: serverTimestamp() };
+  return id
+    ? setDoc(doc(db, getBankQuestionsPath(category), id), data)
+    : addDoc(collection(db, getBankQuestionsPath(category)), data).then(() => undefined);
+};
+
+export const setQuestionRetired = (db: Firestore, category: string, questionId: string, retired: boolean) =>
+  updateDoc(doc(db, getBankQuestionsPath(category), questionId), { retired, updatedAt: serverTimestamp() });
+
+export const exportBanks = async (db: Firestore, banks: QuizBankDoc[]): Promise<QuizBankExport> => ({
+  version: QUIZ_BANK_EXPORT_VERSION,
+  banks: await Promise.all(
+    banks.map(async (bank) => {
+      const snap = await getDocs(bankQuestionsCollection(db, bank.id));
+      return {
+        category: bank.category,
+        active: bank.active,
+        questionsPerAttempt: bank.questionsPerAttempt ?? DEFAULT_QUESTIONS_PER_ATTEMPT,
+        cooldownMinutes: bank.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+        perQuestionSeconds: bank.perQuestionSeconds || null,
+        totalSeconds: bank.totalSeconds || null,
+        validityDays: bank.validityDays ?? DEFAULT_VALIDITY_DAYS,
+        subTopics: bank.subTopics ?? [],
+        questions: snap.docs.map((d) => toBankQuestion(d.data())),
+      };
+    }),
+  ),
+});
+
+// Writes a parsed export (see parseQuizBankExport); returns the number of questions written
+export const importBanks = async (db: Firestore, file: QuizBankExport) => {
+  let written = 0;
+  for (const bank of file.banks) {
+    for (let i = 0; i < Math.max(bank.questions.length, 1); i += IMPORT_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      batch.set(
+        doc(db, getPublicCollectionPath('quiz_banks'), bank.category),
+        {
+          category: bank.category,
+          active: bank.active !== false,
+          questionsPerAttempt: bank.questionsPerAttempt ?? DEFAULT_QUESTIONS_PER_ATTEMPT,
+          cooldownMinutes: bank.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+          perQuestionSeconds: bank.perQuestionSeconds || null,
+          totalSeconds: bank.totalSeconds || null,
+          validityDays: bank.validityDays ?? DEFAULT_VALIDITY_DAYS,
+          subTopics: bank.subTopics ?? [],
+          updatedAt: serverTimestamp(),
+        },
+        { merge: true },
+      );
+      bank.questions.slice(i, i + IMPORT_BATCH_SIZE).forEach((q) => {
+        const { id, ...fields } = toBankQuestion(q);
+        batch.set(doc(db, getBankQuestionsPath(bank.category), id), { ...fields, updatedAt: serverTimestamp() });
+        written += 1;
+      });
+      await batch.commit();
+    }
+  }
+  return written;
+};
+
+// -------------------------------------------------------------
+// Attempts (written only by the startQuiz/gradeQuiz functions)
+// -------------------------------------------------------------
+
+// Own attempts, newest first, for cooldowns and history
+export const subscribeAttempts = (
+  db: Firestore,
+  uid: string,
+  onNext: (attempts: QuizAttemptDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(attemptsCollection(db), where('uid', '==', uid), orderBy('startedAt', 'desc'), limit(OWN_ATTEMPTS_LIMIT)),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data())),
+    onError,
+  );
+
+// Recent attempts in a category, for reviewing suspicious timings (admin only)
+export const subscribeCategoryAttempts = (
+  db: Firestore,
+  category: string,
+  onNext: (attempts: QuizAttemptDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(
+      attemptsCollection(db),
+      where('category', '==', category),
+      orderBy('startedAt', 'desc'),
+      limit(CATEGORY_ATTEMPTS_LIMIT),
+    ),
+    (snapshot) => onNext(snapshot.docs.map((d) => d.data())),
+    onError,
+  );
+
+export const startQuiz = async (functions: Functions, request: Omit<StartQuizRequest, 'appId'>) =>
+  (await httpsCallable<StartQuizRequest, StartQuizResponse>(functions, 'startQuiz')({ appId: APP_ID, ...request }))
+    .data;
+
+// Grading and the verification write happen in the gradeQuiz function
+export const gradeQuiz = async (functions: Functions, request: Omit<GradeQuizRequest, 'appId'>) =>
+  (await httpsCallable<GradeQuizRequest, GradeQuizResponse>(functions, 'gradeQuiz')({ appId: APP_ID, ...request }))
+    .data;
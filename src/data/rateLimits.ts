@@ -0,0 +1,12 @@
+import { doc, serverTimestamp, type Firestore, type WriteBatch } from 'firebase/firestore';
+import { getPublicCollectionPath } from './paths.ts';
+
+// Each post stamps rate_limits/{uid} in the same batch; the rules only accept
+// it when the previous stamp of that kind is old enough.
+export const stampRateLimit = (
+  batch: WriteBatch,
+  db: Firestore,
+  uid: string,
+  field: 'lastQuestionAt' | 'lastAnswerAt' | 'lastFlagAt',
+) =>
+  batch.set(doc(db, getPublicCollectionPath('rate_limits'), uid), { [field]: serverTimestamp() }, { merge: true });
@@ -0,0 +1,50 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  type DocumentReference,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import type { RevisionDoc } from '../types.ts';
+import { revisionConverter } from './converters.ts';
+
+// Replaces the text of a question or answer and appends the text it replaced
+// to its `revisions` subcollection. Runs as a transaction so two edits can't
+// both claim the same revision number; the rules check both writes together.
+export const editWithRevision = (
+  db: Firestore,
+  ref: DocumentReference,
+  changes: { title?: string; body: string },
+  editorId: string,
+) =>
+  runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) throw new Error(`${ref.path} no longer exists`);
+    const revision = ((snap.get('revisionCount') as number | undefined) ?? 0) + 1;
+    const previous = Object.fromEntries(Object.keys(changes).map((key) => [key, snap.get(key) as string]));
+    tx.set(doc(ref, 'revisions', String(revision)), {
+      ...previous,
+      revision,
+      editedBy: editorId,
+      editedAt: serverTimestamp(),
+    });
+    tx.update(ref, { ...changes, revisionCount: revision, editedAt: serverTimestamp() });
+  });
+
+// Newest edit first
+export const subscribeRevisions = (
+  db: Firestore,
+  docPath: string,
+  onNext: (revisions: RevisionDoc[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    query(collection(db, docPath, 'revisions').withConverter(revisionConverter), orderBy('revision', 'desc')),
+    (snap) => onNext(snap.docs.map((d) => d.data())),
+    onError,
+  );
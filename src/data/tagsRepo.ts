@@ -0,0 +1,73 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  documentId,
+  endAt,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAt,
+  type Firestore,
+  type FirestoreError,
+} from 'firebase/firestore';
+import type { TagDoc, TagFollowsDoc } from '../types.ts';
+import { tagConverter } from './converters.ts';
+import { getPublicCollectionPath } from './paths.ts';
+
+const TAG_CANDIDATE_LIMIT = 20;
+const TAG_SUGGESTION_LIMIT = 8;
+
+const tagsCollection = (db: Firestore) => collection(db, getPublicCollectionPath('tags')).withConverter(tagConverter);
+
+const followsRef = (db: Firestore, uid: string) => doc(db, getPublicCollectionPath('tag_follows'), uid);
+
+// Tags in use starting with the prefix, most used first
+export const searchTags = async (db: Firestore, prefix: string, max = TAG_SUGGESTION_LIMIT) => {
+  if (!prefix) return [];
+  const snap = await getDocs(
+    query(
+      tagsCollection(db),
+      orderBy(documentId()),
+      startAt(prefix),
+      endAt(`${prefix}\uf8ff`),
+      limit(TAG_CANDIDATE_LIMIT),
+    ),
+  );
+  return snap.docs
+    .map((d) => d.data())
+    .sort((a, b) => b.questionCount - a.questionCount)
+    .slice(0, max);
+};
+
+// null until a question uses the tag
+export const subscribeTag = (
+  db: Firestore,
+  tag: string,
+  onNext: (tag: TagDoc | null) => void,
+  onError: (err: FirestoreError) => void,
+) => onSnapshot(doc(tagsCollection(db), tag), (snap) => onNext(snap.data() ?? null), onError);
+
+export const subscribeFollowedTags = (
+  db: Firestore,
+  uid: string,
+  onNext: (tags: string[]) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    followsRef(db, uid),
+    (snap) => onNext((snap.data() as TagFollowsDoc | undefined)?.tags ?? []),
+    onError,
+  );
+
+export const setTagFollowed = (db: Firestore, uid: string, tag: string, followed: boolean) =>
+  setDoc(
+    followsRef(db, uid),
+    { tags: followed ? arrayUnion(tag) : arrayRemove(tag), updatedAt: serverTimestamp() },
+    { merge: true },
+  );
@@ -0,0 +1,18 @@
+import { doc, onSnapshot, type Firestore, type FirestoreError } from 'firebase/firestore';
+import type { VerificationDoc } from '../types.ts';
+import { verificationConverter } from './converters.ts';
+import { getPublicCollectionPath } from './paths.ts';
+
+// Written only by gradeQuiz and the moderation functions. A user who never
+// passed a quiz has no doc and gets an empty verification.
+export const subscribeVerification = (
+  db: Firestore,
+  uid: string,
+  onNext: (verification: VerificationDoc) => void,
+  onError: (err: FirestoreError) => void,
+) =>
+  onSnapshot(
+    doc(db, getPublicCollectionPath('expert_verifications'), uid).withConverter(verificationConverter),
+    (snap) => onNext(snap.data() ?? { id: uid, verifiedCategories: [] }),
+    onError,
+  );
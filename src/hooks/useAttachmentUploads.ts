@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { MAX_ATTACHMENTS } from '../constants.ts';
+import * as attachmentsRepo from '../data/attachmentsRepo.ts';
+import { getAttachmentError } from '../lib/attachments.ts';
+import { useSync } from '../sync/SyncContext.ts';
+import type { Attachment } from '../types.ts';
+
+// Files attached to a draft question or answer. Each file uploads as soon as
+// it's picked, so posting only writes the list. Guests can't attach files
+// (storage.rules), and uploads need a connection. Files that never make it
+// into a post are deleted when the composer goes away.
+export const useAttachmentUploads = () => {
+  const { storage, userId, isAnonymous } = useAuth();
+  const { isOnline } = useSync();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState<string[]>([]); // file names
+  const [notice, setNotice] = useState<string | null>(null);
+  // Slots taken by finished and in-flight uploads, counted synchronously so
+  // two quick picks can't both see the same free room
+  const usedSlotsRef = useRef(0);
+  const unpostedRef = useRef<Attachment[]>([]);
+  const isMountedRef = useRef(true);
+  const unavailableReason = isAnonymous
+    ? 'Sign in with an account to attach files.'
+    : !isOnline
+      ? 'Attaching files needs a connection.'
+      : null;
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      const unposted = unpostedRef.current;
+      unpostedRef.current = [];
+      usedSlotsRef.current = 0;
+      unposted.forEach((a) =>
+        attachmentsRepo.deleteAttachment(storage, a).catch((err) => console.error('Error deleting attachment:', err)),
+      );
+    };
+  }, [storage]);
+
+  const deleteQuietly = (attachment: Attachment) => {
+    attachmentsRepo
+      .deleteAttachment(storage, attachment)
+      .catch((err) => console.error('Error deleting attachment:', err));
+  };
+
+  const addFiles = async (files: File[]) => {
+    if (!userId || unavailableReason) return;
+    setNotice(null);
+    const valid = files.filter((file) => {
+      const problem = getAttachmentError(file);
+      if (problem) setNotice(problem);
+      return !problem;
+    });
+    const room = Math.max(0, MAX_ATTACHMENTS - usedSlotsRef.current);
+    if (valid.length > room) setNotice(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+    const accepted = valid.slice(0, room);
+    usedSlotsRef.current += accepted.length;
+    await Promise.all(
+      accepted.map(async (file) => {
+        setUploading((prev) => [...prev, file.name]);
+        try {
+          const attachment = await attachmentsRepo.uploadAttachment(storage, userId, file);
+          if (!isMountedRef.current) {
+            deleteQuietly(attachment);
+            return;
+          }
+          unpostedRef.current = [...unpostedRef.current, attachment];
+          setAttachments((prev) => [...prev, attachment]);
+        } catch (e) {
+          console.error('Error uploading attachment:', e);
+          usedSlotsRef.current -= 1;
+          if (isMountedRef.current) setNotice(`Could not upload ${file.name}. Please try again.`);
+        } finally {
+          if (isMountedRef.current) setUploading((prev) => prev.filter((_, i) => i !== prev.indexOf(file.name)));
+        }
+      }),
+    );
+  };
+
+  const removeAttachment = (attachment: Attachment) => {
+    usedSlotsRef.current -= 1;
+    unpostedRef.current = unpostedRef.current.filter((a) => a.id !== attachment.id);
+    setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+    deleteQuietly(attachment);
+  };
+
+  // After posting: the files now belong to the post, so they're kept
+  const clear = () => {
+    usedSlotsRef.current -= unpostedRef.current.length;
+    unpostedRef.current = [];
+    setAttachments([]);
+    setNotice(null);
+  };
+
+  return {
+    attachments,
+    isUploading: uploading.length > 0,
+    uploading,
+    notice,
+    unavailableReason,
+    addFiles,
+    removeAttachment,
+    clear,
+  };
+};
+
+export type AttachmentUploads = ReturnType<typeof useAttachmentUploads>;
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { DEFAULT_FEED_FILTERS } from '../constants.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import type { FeedFilters, QuestionDoc } from '../types.ts';
+
+export type FeedTab = 'questions' | 'bounties' | 'following';
+
+// The question feed: the first page is live, "Load more" fetches later pages
+// once. Lives in App so the filters and loaded pages survive opening a question.
+export const useQuestionFeed = (onError: (message: string) => void) => {
+  const { db, userId, followedTags } = useAuth();
+  const [tab, setTab] = useState<FeedTab>('questions');
+  const [filters, setFilters] = useState<FeedFilters>(DEFAULT_FEED_FILTERS);
+  const [firstPage, setFirstPage] = useState<questionsRepo.FeedPage | null>(null);
+  const [olderQuestions, setOlderQuestions] = useState<QuestionDoc[]>([]);
+  const [olderCursor, setOlderCursor] = useState<questionsRepo.FeedCursor | null>(null);
+  const [olderHasMore, setOlderHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [bountyQuestions, setBountyQuestions] = useState<QuestionDoc[]>([]);
+  const [followingQuestions, setFollowingQuestions] = useState<QuestionDoc[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    setOlderQuestions([]);
+    setOlderCursor(null);
+    return questionsRepo.subscribeFeedPage(db, filters, setFirstPage, (err) => {
+      console.error('Error fetching questions:', err);
+      onError('Failed to load questions from database.');
+    });
+  }, [db, userId, filters, onError]);
+
+  // Bounties tab; only listens while the tab is open
+  useEffect(() => {
+    if (!userId || tab !== 'bounties') return;
+    return questionsRepo.subscribeBounties(
+      db,
+      (questions) => setBountyQuestions(questions.filter((q) => !q.hidden)),
+      (err) => {
+        console.error('Error fetching bounties:', err);
+        onError('Failed to load bounties from database.');
+      },
+    );
+  }, [db, userId, tab, onError]);
+
+  // Following tab: newest questions carrying any followed tag
+  useEffect(() => {
+    if (!userId || tab !== 'following') return;
+    if (!followedTags.length) {
+      setFollowingQuestions([]);
+      return;
+    }
+    return questionsRepo.subscribeTaggedQuestions(
+      db,
+      followedTags,
+      (questions) => setFollowingQuestions(questions.filter((q) => !q.hidden)),
+      (err) => {
+        console.error('Error fetching followed tags:', err);
+        onError('Failed to load questions for followed tags.');
+      },
+    );
+  }, [db, userId, tab, followedTags, onError]);
+
+  // Live changes to the first page can shift a question across the boundary,
+  // so the merged list drops duplicates. Hidden questions are already blanked;
+  // the feed just leaves them out.
+  const questions = useMemo(() => {
+    const first = firstPage?.questions ?? [];
+    const seen = new Set(first.map((q) => q.id));
+    return [...first, ...olderQuestions.filter((q) => !seen.has(q.id))].filter((q) => !q.hidden);
+  }, [firstPage, olderQuestions]);
+  const hasMore = olderCursor ? olderHasMore : !!firstPage?.isFull;
+
+  const loadMore = async () => {
+    const cursor = olderCursor ?? firstPage?.cursor;
+    if (!cursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await questionsRepo.fetchFeedPage(db, filters, cursor);
+      setOlderQuestions((prev) => [...prev, ...page.questions]);
+      setOlderCursor(page.cursor ?? cursor);
+      setOlderHasMore(page.isFull);
+    } catch (e) {
+      console.error('Error loading more questions:', e);
+      onError('Failed to load more questions.');
+    }
+    setIsLoadingMore(false);
+  };
+
+  return {
+    tab,
+    setTab,
+    filters,
+    setFilters,
+    questions,
+    bountyQuestions,
+    followingQuestions,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  };
+};
+
+export type QuestionFeed = ReturnType<typeof useQuestionFeed>;
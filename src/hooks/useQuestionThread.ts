@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../auth/AuthContext.ts';
+import * as answersRepo from '../data/answersRepo.ts';
+import * as profilesRepo from '../data/profilesRepo.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import type { AnswerDoc, QuestionDoc, VoteValue } from '../types.ts';
+
+// A question with its answers, the viewer's votes on them and the reputation
+// of everyone who answered. The question is loaded on its own: it may not be
+// in the loaded feed pages.
+export const useQuestionThread = (questionId: string, onError: (message: string) => void) => {
+  const { db, userId } = useAuth();
+  const [question, setQuestion] = useState<QuestionDoc | null | undefined>(undefined); // undefined = loading
+  const [answers, setAnswers] = useState<AnswerDoc[]>([]);
+  const [myVotes, setMyVotes] = useState<Record<string, VoteValue>>({});
+  const [reputations, setReputations] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const unsubQuestion = questionsRepo.subscribeQuestion(db, questionId, setQuestion, (err) => {
+      console.error('Error fetching question:', err);
+      onError('Failed to load the question.');
+    });
+    const unsubAnswers = answersRepo.subscribeAnswers(db, questionId, setAnswers, (err) => {
+      console.error('Error fetching answers:', err);
+      onError('Failed to load answers from database.');
+    });
+    return () => {
+      unsubQuestion();
+      unsubAnswers();
+    };
+  }, [db, questionId, onError]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMyVotes({});
+      return;
+    }
+    return answersRepo.subscribeMyVotes(db, userId, questionId, setMyVotes, (err) => {
+      console.error('Error fetching votes:', err);
+    });
+  }, [db, userId, questionId]);
+
+  // Keyed on the sorted author ids so new votes or edits don't refetch
+  const authorKey = Array.from(new Set(answers.map((a) => a.authorId))).sort().join(',');
+  useEffect(() => {
+    if (!authorKey) {
+      setReputations({});
+      return;
+    }
+    profilesRepo
+      .fetchReputationTotals(db, authorKey.split(','))
+      .then(setReputations)
+      .catch((err) => console.error('Error fetching reputations:', err));
+  }, [db, authorKey]);
+
+  return { question, answers, myVotes, reputations };
+};
@@ -0,0 +1,65 @@
+import {
+  ATTACHMENT_TYPE_LABELS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_THUMBNAIL_BYTES,
+  THUMBNAIL_SIZE,
+} from '../constants.ts';
+import type { Attachment } from '../types.ts';
+import { formatFileSize } from './format.ts';
+
+export const isImageType = (contentType: string) => contentType.startsWith('image/');
+
+const isAllowedType = (contentType: string) => Object.keys(ATTACHMENT_TYPE_LABELS).includes(contentType);
+
+// Attachment lists come from clients; malformed entries are dropped when read
+export const isAttachment = (value: unknown): value is Attachment => {
+  const a = value as Partial<Attachment> | null;
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    typeof a.id === 'string' &&
+    typeof a.name === 'string' &&
+    typeof a.contentType === 'string' &&
+    isAllowedType(a.contentType) &&
+    typeof a.size === 'number' &&
+    typeof a.path === 'string'
+  );
+};
+
+export const toAttachments = (value: unknown): Attachment[] => (Array.isArray(value) ? value.filter(isAttachment) : []);
+
+// Why a file can't be attached, or null if it can
+export const getAttachmentError = (file: File) => {
+  if (!isAllowedType(file.type)) {
+    return `${file.name} isn't a supported type. Attach images, PDFs, text, CSV or Excel files.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+};
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+// A small JPEG of an image for feed cards, or null if the browser can't
+// decode it. Scaled down only, never up.
+export const createThumbnail = async (file: File): Promise<Blob | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return null;
+  }
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  for (const quality of [0.8, 0.5]) {
+    const blob = await toJpeg(canvas, quality);
+    if (blob && blob.size <= MAX_THUMBNAIL_BYTES) return blob;
+  }
+  return null;
+};
@@ -0,0 +1,59 @@
+export type DiffPart = { kind: 'same' | 'added' | 'removed'; text: string };
+
+// Above this (changed words before x after) the diff shows the old and new
+// text whole instead of building the LCS table
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Word-level diff: longest common subsequence over words and whitespace runs,
+// after trimming the common prefix and suffix
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else if (text) parts.push({ kind, text });
+  };
+
+  push('same', a.slice(0, start).join(''));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    // lcs[i][j] = common subsequence length of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push('same', midA[i++]);
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push('removed', midA[i++]);
+      } else {
+        push('added', midB[j++]);
+      }
+    }
+    push('removed', midA.slice(i).join(''));
+    push('added', midB.slice(j).join(''));
+  }
+  push('same', a.slice(endA).join(''));
+  return parts;
+};
@@ -0,0 +1,17 @@
+import type { Timestamp } from 'firebase/firestore';
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const formatTimestamp = (ts?: Timestamp, ms?: number) => {
+  const date = ts ? ts.toDate() : ms ? new Date(ms) : null;
+  return date ? date.toLocaleString() : 'Just now';
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
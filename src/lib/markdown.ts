@@ -0,0 +1,48 @@
+import { Marked } from 'marked';
+import { markedHighlight } from 'marked-highlight';
+import markedKatex from 'marked-katex-extension';
+import hljs from 'highlight.js/lib/common';
+import DOMPurify from 'dompurify';
+
+// GitHub-flavoured Markdown with highlighted code fences and $inline$ /
+// $$block$$ KaTeX math. Raw HTML in the source is shown as text, and the
+// output still goes through DOMPurify since bodies are user-written.
+const markdown = new Marked(
+  markedHighlight({
+    emptyLangClass: 'hljs',
+    langPrefix: 'hljs language-',
+    highlight: (code, lang) =>
+      hljs.highlight(code, { language: hljs.getLanguage(lang) ? lang : 'plaintext' }).value,
+  }),
+  markedKatex({ throwOnError: false, nonStandard: true }),
+  {
+    gfm: true,
+    breaks: true,
+    renderer: {
+      html: ({ text }) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+    },
+  },
+);
+
+// Links open in a new tab and pass no referrer or ranking to the target
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+});
+
+export const renderMarkdown = (source: string) =>
+  DOMPurify.sanitize(markdown.parse(source, { async: false }), {
+    USE_PROFILES: { html: true, mathMl: true, svg: true },
+  });
+
+// Plain-text preview for cards, where rendered blocks would break line clamping
+export const toPlainExcerpt = (source: string) =>
+  source
+    .replace(/```[\s\S]*?```/g, ' [code] ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' [math] ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~$|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -0,0 +1,160 @@
+// Quiz bank validation and attempt helpers shared by the quiz and bank admin views
+
+import { MAX_SUB_TOPICS } from '../constants.ts';
+import {
+  EXPERTISE_LEVELS,
+  type BankQuestion,
+  type ExpertiseLevel,
+  type QuizAnswer,
+  type QuizAttemptDoc,
+  type QuizBankDoc,
+  type QuizBankExport,
+  type QuizQuestionType,
+  type QuizTimeLimits,
+} from '../types.ts';
+import { isTag } from './tags.ts';
+
+// Display only; grading happens server-side in functions/src/index.ts
+export const PASSING_SCORE_PERCENTAGE = 0.7;
+
+// Mirrors the defaults in functions/src/index.ts
+export const DEFAULT_QUESTIONS_PER_ATTEMPT = 5;
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+
+export const UNTIMED: QuizTimeLimits = { perQuestionSeconds: null, totalSeconds: null };
+
+export const DEFAULT_VALIDITY_DAYS = 365;
+
+export const QUIZ_BANK_EXPORT_VERSION = 1;
+
+const isStringList = (value: unknown, min: number): value is string[] =>
+  Array.isArray(value) && value.length >= min && value.every((v) => typeof v === 'string' && v.trim());
+
+// Describes what is wrong with a question for its type, or null when it's valid
+export const getBankQuestionError = (q: BankQuestion): string | null => {
+  if (typeof q.question !== 'string' || !q.question.trim()) return 'is missing its question text';
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      if (!isStringList(q.options, 2)) return 'needs at least two options';
+      return q.options.includes(q.answer) ? null : 'has an answer that is not one of its options';
+    case 'multi':
+      if (!isStringList(q.options, 2)) return 'needs at least two options';
+      if (!isStringList(q.answers, 1)) return 'needs at least one correct option';
+      return q.answers.every((a) => q.options.includes(a)) ? null : 'has answers that are not options';
+    case 'numeric':
+      if (typeof q.numericAnswer !== 'number' || !Number.isFinite(q.numericAnswer)) return 'needs a numeric answer';
+      return typeof q.tolerance === 'number' && q.tolerance >= 0 ? null : 'needs a tolerance of 0 or more';
+    case 'text':
+      return isStringList(q.acceptedAnswers, 1) ? null : 'needs at least one accepted answer';
+    case 'code':
+      if (typeof q.code !== 'string' || !q.code.trim()) return 'needs a code snippet';
+      return isStringList(q.acceptedAnswers, 1) ? null : 'needs at least one accepted answer';
+    default:
+      return `has an unknown type "${(q as { type: unknown }).type}"`;
+  }
+};
+
+// Keeps only the fields that belong to the question's type (drops updatedAt etc.)
+export const toBankQuestion = (q: BankQuestion): BankQuestion => {
+  const base = {
+    id: q.id,
+    question: q.question,
+    ...(q.explanation ? { explanation: q.explanation } : {}),
+    ...(q.tier && q.tier !== 'Verified' ? { tier: q.tier } : {}),
+    retired: !!q.retired,
+  };
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return { ...base, type: 'single', options: q.options, answer: q.answer };
+    case 'multi':
+      return { ...base, type: 'multi', options: q.options, answers: q.answers };
+    case 'numeric':
+      return { ...base, type: 'numeric', numericAnswer: q.numericAnswer, tolerance: q.tolerance, unit: q.unit ?? '' };
+    case 'text':
+      return { ...base, type: 'text', acceptedAnswers: q.acceptedAnswers };
+    case 'code':
+      return { ...base, type: 'code', code: q.code, language: q.language ?? '', acceptedAnswers: q.acceptedAnswers };
+  }
+};
+
+export const describeBankAnswer = (q: BankQuestion) => {
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return q.options.map((o) => (o === q.answer ? `[${o}]` : o)).join(' · ');
+    case 'multi':
+      return q.options.map((o) => (q.answers.includes(o) ? `[${o}]` : o)).join(' · ');
+    case 'numeric':
+      return `${q.numericAnswer} ± ${q.tolerance}${q.unit ? ` ${q.unit}` : ''}`;
+    case 'text':
+    case 'code':
+      return `Accepts: ${q.acceptedAnswers.join(' | ')}`;
+  }
+};
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  single: 'Single choice',
+  multi: 'Multi-select',
+  numeric: 'Numeric',
+  text: 'Short text',
+  code: 'Code snippet',
+};
+
+// Validates an uploaded bank file; throws with a readable message on bad input
+export const parseQuizBankExport = (raw: unknown): QuizBankExport => {
+  const file = raw as Partial<QuizBankExport> | null;
+  if (!file || file.version !== QUIZ_BANK_EXPORT_VERSION || !Array.isArray(file.banks)) {
+    throw new Error(`Expected a version ${QUIZ_BANK_EXPORT_VERSION} quiz bank file with a "banks" array.`);
+  }
+  file.banks.forEach((bank, b) => {
+    if (!bank || typeof bank.category !== 'string' || !bank.category.trim() || bank.category.includes('/')) {
+      throw new Error(`Bank #${b + 1} needs a category name without "/".`);
+    }
+    if (!Array.isArray(bank.questions)) {
+      throw new Error(`Bank "${bank.category}" has no "questions" array.`);
+    }
+    for (const key of ['questionsPerAttempt', 'cooldownMinutes', 'perQuestionSeconds', 'totalSeconds', 'validityDays'] as const) {
+      const value = bank[key];
+      // An attempt needs at least one question and a pass must last at least a day
+      const min = key === 'questionsPerAttempt' || key === 'validityDays' ? 1 : 0;
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < min)) {
+        throw new Error(`Bank "${bank.category}" has an invalid ${key}.`);
+      }
+    }
+    if (
+      bank.subTopics !== undefined &&
+      (!Array.isArray(bank.subTopics) ||
+        bank.subTopics.length > MAX_SUB_TOPICS ||
+        !bank.subTopics.every(isTag))
+    ) {
+      throw new Error(
+        `Bank "${bank.category}" needs "subTopics" to be up to ${MAX_SUB_TOPICS} lowercase tags (letters, digits, dashes).`,
+      );
+    }
+    bank.questions.forEach((q, i) => {
+      const where = `${bank.category} question #${i + 1}`;
+      if (typeof q?.id !== 'string' || !q.id || q.id.includes('/')) {
+        throw new Error(`${where} needs an id without "/".`);
+      }
+      const problem = getBankQuestionError(q);
+      if (problem) throw new Error(`${where} ${problem}.`);
+      if (q.tier !== undefined && !EXPERTISE_LEVELS.includes(q.tier)) {
+        throw new Error(`${where} has an unknown tier "${q.tier}".`);
+      }
+    });
+  });
+  return file as QuizBankExport;
+};
+// When the user may retake a category quiz at a level, or null if they can start now
+export const getQuizRetryAt = (bank: QuizBankDoc | undefined, level: ExpertiseLevel, attempts: QuizAttemptDoc[]) => {
+  const last = attempts.find((a) => a.category === bank?.category && (a.level ?? 'Verified') === level);
+  if (!bank || !last || last.status === 'passed') return null;
+  const endedAt = (last.completedAt ?? last.startedAt)?.toMillis() ?? Date.now();
+  const retryAt = endedAt + (bank.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60_000;
+  return retryAt > Date.now() ? retryAt : null;
+};
+
+export const isAnswered = (answer: QuizAnswer) =>
+  Array.isArray(answer) ? answer.length > 0 : typeof answer === 'string' ? !!answer.trim() : answer !== null;
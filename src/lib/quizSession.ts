@@ -0,0 +1,45 @@
+import type { QuizAnswer, QuizQuestion, QuizTimeLimits } from '../types.ts';
+
+const STORAGE_KEY = 'crosspoint.activeQuiz';
+
+// An attempt in progress. It is kept in sessionStorage so a refresh resumes
+// at the same question with the clocks still running.
+export type QuizSession = {
+  uid: string;
+  category: string;
+  attemptId: string;
+  questions: QuizQuestion[];
+  timeLimits: QuizTimeLimits;
+  deadline: number | null; // epoch ms for the overall limit
+  index: number; // current question
+  answers: Record<string, QuizAnswer>;
+  questionTimesMs: Record<string, number>;
+  questionStartedAt: number; // epoch ms
+};
+
+export const loadQuizSession = (uid: string, category: string): QuizSession | null => {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    const session = raw ? (JSON.parse(raw) as QuizSession) : null;
+    return session?.uid === uid && session.category === category ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+// Storage can be full or disabled; the quiz still works, it just won't survive a reload
+export const saveQuizSession = (session: QuizSession) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.warn('Could not save quiz progress:', e);
+  }
+};
+
+export const clearQuizSession = () => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing was saved
+  }
+};
@@ -0,0 +1,23 @@
+import { TAG_MAX_LENGTH } from '../constants.ts';
+
+// Must match TAG_PATTERN in functions/src/index.ts
+export const TAG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Stored tags come from clients; anything else is dropped when read
+export const isTag = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= TAG_MAX_LENGTH && TAG_PATTERN.test(value);
+
+// Tags are lowercase slugs: "Web Development" becomes "web-development"
+export const normalizeTag = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, TAG_MAX_LENGTH)
+    .replace(/-+$/, '');
+
+// Comma-separated input (e.g. a bank's sub-topics) to unique tags
+export const parseTagList = (text: string) =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
@@ -0,0 +1,2 @@
+export const tabClassName = (isActive: boolean) =>
+  `py-2 px-4 rounded-lg font-semibold ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700'}`;
@@ -0,0 +1,24 @@
+import { EXPERTISE_LEVELS, type ActiveVerification, type ExpertiseLevel, type VerificationDoc } from '../types.ts';
+
+// The user's unexpired verification in a category, or null. Docs written before
+// levels existed only have verifiedCategories and count as non-expiring Verified.
+export const getActiveVerification = (v: VerificationDoc, category: string): ActiveVerification | null => {
+  const entry = v.categories?.[category];
+  if (entry) {
+    const expiresAt = entry.expiresAt.toMillis();
+    return expiresAt > Date.now() ? { category, level: entry.level, expiresAt } : null;
+  }
+  return v.verifiedCategories?.includes(category) ? { category, level: 'Verified', expiresAt: Infinity } : null;
+};
+
+export const getActiveVerifications = (v: VerificationDoc): ActiveVerification[] =>
+  Array.from(new Set([...(v.verifiedCategories ?? []), ...Object.keys(v.categories ?? {})]))
+    .map((category) => getActiveVerification(v, category))
+    .filter((a): a is ActiveVerification => a !== null);
+
+// Passed once but lapsed: the expert must re-verify before answering again
+export const isVerificationExpired = (v: VerificationDoc, category: string) =>
+  !!v.categories?.[category] && !getActiveVerification(v, category);
+
+export const nextLevel = (level: ExpertiseLevel | null): ExpertiseLevel | null =>
+  level === null ? EXPERTISE_LEVELS[0] : EXPERTISE_LEVELS[EXPERTISE_LEVELS.indexOf(level) + 1] ?? null;
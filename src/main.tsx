@@ -1,11 +1,20 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router'
 import './index.css'
 import App from './App.tsx'
+import { AuthProvider } from './auth/AuthProvider.tsx'
+import { SyncProvider } from './sync/SyncProvider.tsx'
 import './App.css'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <BrowserRouter>
+      <AuthProvider>
+        <SyncProvider>
+          <App />
+        </SyncProvider>
+      </AuthProvider>
+    </BrowserRouter>
   </StrictMode>,
 )
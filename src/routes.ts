@@ -0,0 +1,17 @@
+// Client-side routes. Views link through these builders rather than
+// assembling paths themselves.
+export const paths = {
+  feed: '/',
+  ask: '/ask',
+  question: (questionId: string) => `/questions/${encodeURIComponent(questionId)}`,
+  quiz: (category?: string) => (category ? `/quiz/${encodeURIComponent(category)}` : '/quiz'),
+  expert: (uid: string) => `/experts/${encodeURIComponent(uid)}`,
+  tag: (tag: string) => `/tags/${encodeURIComponent(tag)}`,
+  notifications: '/notifications',
+  account: '/account',
+  moderation: '/moderation',
+  admin: '/admin',
+};
+
+// The feed's search text lives in the query string so results can be linked
+export const SEARCH_PARAM = 'q';
@@ -0,0 +1,34 @@
+import { createContext, useContext } from 'react';
+
+// A post made while offline. Firestore keeps the write itself in its cache and
+// sends it when the connection returns; this is what the header lists meanwhile.
+export type PendingWrite = {
+  id: string;
+  uid: string;
+  kind: 'question' | 'answer';
+  label: string; // the question's title
+  path?: string; // the new doc; missing on entries stored before it was recorded
+  createdAt: number; // epoch ms
+  failureMessage?: string;
+  error?: string; // set to failureMessage when the server rejected the write
+};
+
+export type SyncState = {
+  isOnline: boolean;
+  pendingWrites: PendingWrite[]; // the signed-in user's only
+  // Lists a write made offline until it syncs; failureMessage is shown if it's rejected
+  queueWrite: (
+    write: Pick<PendingWrite, 'kind' | 'label' | 'path'>,
+    commit: Promise<unknown>,
+    failureMessage: string,
+  ) => void;
+  dismissWrite: (id: string) => void;
+};
+
+export const SyncContext = createContext<SyncState | null>(null);
+
+export const useSync = () => {
+  const state = useContext(SyncContext);
+  if (!state) throw new Error('useSync must be used inside SyncProvider');
+  return state;
+};
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { doc, getDocFromServer, waitForPendingWrites } from 'firebase/firestore';
+import { useAuth } from '../auth/AuthContext.ts';
+import { SyncContext, type PendingWrite, type SyncState } from './SyncContext.ts';
+
+const STORAGE_KEY = 'crosspoint.pendingWrites';
+
+const loadStoredWrites = (): PendingWrite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as PendingWrite[];
+  } catch {
+    return [];
+  }
+};
+
+// Tracks connectivity and the posts made while offline. The list is stored so
+// it survives a reload; the writes themselves live in Firestore's cache.
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { db, userId } = useAuth();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>(loadStoredWrites);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(pendingWrites));
+    } catch {
+      // Storage full or disabled: the list just won't survive a reload
+    }
+  }, [pendingWrites]);
+
+  // Writes listed before a reload have no commit to follow any more. Once
+  // Firestore has nothing left to send, each one's doc is looked up on the
+  // server: waitForPendingWrites also resolves when a write was rejected, and
+  // a rejected post never reaches the server.
+  useEffect(() => {
+    const restored = loadStoredWrites().filter((w) => !w.error && w.uid === userId);
+    if (!restored.length) return;
+    let active = true;
+    waitForPendingWrites(db)
+      .then(() =>
+        Promise.all(
+          restored.map(async (w) => ({
+            id: w.id,
+            rejected: w.path ? !(await getDocFromServer(doc(db, w.path))).exists() : false,
+          })),
+        ),
+      )
+      .then((results) => {
+        if (!active) return;
+        const rejected = new Set(results.filter((r) => r.rejected).map((r) => r.id));
+        const synced = new Set(results.filter((r) => !r.rejected).map((r) => r.id));
+        setPendingWrites((prev) =>
+          prev
+            .filter((w) => !synced.has(w.id))
+            .map((w) =>
+              rejected.has(w.id)
+                ? { ...w, error: w.failureMessage ?? `Your ${w.kind} could not be posted.` }
+                : w,
+            ),
+        );
+      })
+      .catch((err) => console.error('Error checking restored pending writes:', err));
+    return () => {
+      active = false;
+    };
+  }, [db, userId]);
+
+  const queueWrite = useCallback<SyncState['queueWrite']>(
+    (write, commit, failureMessage) => {
+      if (!userId) return;
+      const id = crypto.randomUUID();
+      setPendingWrites((prev) => [...prev, { ...write, id, uid: userId, createdAt: Date.now(), failureMessage }]);
+      commit.then(
+        () => setPendingWrites((prev) => prev.filter((w) => w.id !== id)),
+        (err) => {
+          console.error(`Error syncing ${write.kind}:`, err);
+          setPendingWrites((prev) => prev.map((w) => (w.id === id ? { ...w, error: failureMessage } : w)));
+        },
+      );
+    },
+    [userId],
+  );
+
+  const dismissWrite = useCallback((id: string) => {
+    setPendingWrites((prev) => prev.filter((w) => w.id !== id));
+  }, []);
+
+  const value = useMemo<SyncState>(
+    () => ({
+      isOnline,
+      pendingWrites: pendingWrites.filter((w) => w.uid === userId),
+      queueWrite,
+      dismissWrite,
+    }),
+    [isOnline, pendingWrites, userId, queueWrite, dismissWrite],
+  );
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
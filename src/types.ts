@@ -0,0 +1,379 @@
+// Shared document and request types. Firestore documents carry their id;
+// converters in data/converters.ts fill it in from the snapshot.
+
+import type { Timestamp } from 'firebase/firestore';
+
+// Tiers an expert can climb within a category, lowest first (mirrors functions/src/index.ts)
+export const EXPERTISE_LEVELS = ['Verified', 'Advanced', 'Authority'] as const;
+export type ExpertiseLevel = (typeof EXPERTISE_LEVELS)[number];
+
+export type QuizQuestionType = 'single' | 'multi' | 'numeric' | 'text' | 'code';
+
+// What startQuiz returns to candidates: answers never leave the server.
+export type QuizQuestion = {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[]; // single, multi
+  unit?: string; // numeric
+  code?: string; // code
+  language?: string; // code
+};
+
+// single: option text, multi: option texts, numeric: number, text/code: free text
+export type QuizAnswer = string | string[] | number | null;
+
+// Full question as stored in quiz_banks/{category}/questions (admin only).
+// Each type keeps its own answer fields; graders live in functions/src/grading.ts.
+export type BankQuestion = {
+  id: string;
+  question: string;
+  explanation?: string; // shown in the post-quiz review
+  tier?: ExpertiseLevel; // level whose quiz draws this question; missing = Verified
+  retired: boolean;
+} & (
+  | { type?: 'single'; options: string[]; answer: string } // legacy docs have no type
+  | { type: 'multi'; options: string[]; answers: string[] }
+  | { type: 'numeric'; numericAnswer: number; tolerance: number; unit?: string }
+  | { type: 'text'; acceptedAnswers: string[] }
+  | { type: 'code'; code: string; language?: string; acceptedAnswers: string[] }
+);
+
+export type QuizBankDoc = {
+  id: string; // category name
+  category: string;
+  active: boolean;
+  questionsPerAttempt?: number; // drawn at random from the active pool
+  cooldownMinutes?: number; // wait after a failed or abandoned attempt
+  perQuestionSeconds?: number | null; // 0/null = untimed
+  totalSeconds?: number | null;
+  validityDays?: number; // how long a pass counts before re-verification
+  subTopics?: string[]; // tags allowed on the category's questions; empty = any tag
+  updatedAt?: Timestamp;
+};
+
+// Written only by the startQuiz/gradeQuiz functions
+export type QuizAttemptDoc = {
+  id: string;
+  uid: string;
+  category: string;
+  level?: ExpertiseLevel; // missing on attempts from before tiers
+  questionIds: string[];
+  status: 'in_progress' | 'passed' | 'failed' | 'abandoned';
+  total: number;
+  score: number | null;
+  startedAt?: Timestamp;
+  completedAt?: Timestamp;
+  elapsedMs?: number;
+  timedOut?: boolean;
+};
+
+// JSON import/export format for versioning question banks
+export type QuizBankExport = {
+  version: 1;
+  banks: {
+    category: string;
+    active: boolean;
+    questionsPerAttempt?: number;
+    cooldownMinutes?: number;
+    perQuestionSeconds?: number | null;
+    totalSeconds?: number | null;
+    validityDays?: number;
+    subTopics?: string[];
+    questions: BankQuestion[];
+  }[];
+};
+
+// question.bounty, written only by the bounty functions
+export type Bounty = {
+  amount: number; // reputation, paid by the asker when offering
+  offeredBy: string;
+  offeredAt: Timestamp;
+  deadline: Timestamp;
+  status: 'active' | 'awarded' | 'expired'; // expired = no answer qualified, refunded
+  answerId?: string; // set once awarded
+  awardedTo?: string;
+  awardedAt?: Timestamp;
+  auto?: boolean; // awarded at the deadline rather than by accepting
+};
+
+// A file uploaded to Storage under artifacts/{appId}/attachments/{uid}/{id}/
+// ('file', plus 'thumb' for images). Fixed once the post is made. Download
+// URLs are built from the path (see attachmentsRepo.getAttachmentUrl) rather
+// than stored, so a post can only point at its author's own uploads.
+export type Attachment = {
+  id: string;
+  name: string; // original file name, for display and downloads
+  contentType: string; // one of ATTACHMENT_TYPE_LABELS
+  size: number; // bytes
+  path: string; // the storage folder
+  hasThumbnail?: boolean; // images the browser could decode
+};
+
+export type QuestionDoc = {
+  id: string;
+  title: string;
+  body: string;
+  authorId: string;
+  authorName?: string | null;
+  category: string;
+  tags?: string[]; // slugs, see lib/tags.ts; limited to the category's sub-topics when it has any
+  attachments?: Attachment[];
+  status: 'Open' | 'Closed';
+  acceptedAnswerId?: string | null; // set by the author; accepting closes the question
+  answerCount?: number; // maintained by functions, for sorting and the Unanswered filter
+  voteScore?: number; // sum of answer scores
+  titleTokens?: string[]; // search index, maintained by functions/src/search.ts
+  searchTokens?: string[];
+  revisionCount?: number; // number of edits; earlier text lives in `revisions`
+  editedAt?: Timestamp;
+  hidden?: boolean; // set by moderators; title, body and attachments are blanked while hidden
+  bounty?: Bounty;
+  createdAt?: Timestamp; // Firestore server timestamp
+  createdAtMs?: number;  // client fallback
+};
+
+export type AnswerDoc = {
+  id: string;
+  questionId?: string; // parent question, copied for profile answer history
+  questionTitle?: string;
+  body: string;
+  authorId: string;
+  authorName?: string | null;
+  category: string; // copied from the parent question, checked by rules
+  attachments?: Attachment[];
+  accepted?: boolean;
+  score?: number; // upvotes - downvotes, maintained by castVote
+  upvotes?: number;
+  downvotes?: number;
+  revisionCount?: number;
+  editedAt?: Timestamp;
+  hidden?: boolean; // set by moderators; body and attachments are blanked while hidden
+  createdAt?: Timestamp;
+  createdAtMs?: number;
+};
+
+export type NotificationType = 'answer' | 'accepted' | 'vote' | 'question' | 'tag' | 'bounty';
+
+// notifications/{uid}/items/{id}, written by functions
+export type NotificationDoc = {
+  id: string;
+  type: NotificationType;
+  category: string;
+  questionId: string;
+  questionTitle: string;
+  answerId?: string;
+  actorName?: string | null; // not set for votes, which stay anonymous
+  value?: VoteValue; // votes only
+  amount?: number; // bounties only
+  read: boolean;
+  createdAt?: Timestamp;
+};
+
+// tags/{tag}: every tag in use, maintained by functions for autocomplete and tag pages
+export type TagDoc = {
+  id: string; // the tag
+  questionCount: number;
+  updatedAt?: Timestamp;
+};
+
+// tag_follows/{uid}: tags whose new questions the user wants to hear about
+export type TagFollowsDoc = {
+  tags?: string[];
+  updatedAt?: Timestamp;
+};
+
+// notification_prefs/{uid}: what the functions should skip
+export type NotificationPrefsDoc = {
+  mutedTypes?: NotificationType[];
+  mutedCategories?: string[];
+  updatedAt?: Timestamp;
+};
+
+export type FlagReason = 'spam' | 'offensive' | 'incorrect' | 'other';
+
+// flags/{targetKey}_{reporterId}; targetKey is `{questionId}` or `{questionId}_{answerId}`
+export type FlagDoc = {
+  id: string;
+  targetKey: string;
+  questionId: string;
+  answerId: string | null;
+  reason: FlagReason;
+  details: string;
+  reporterId: string;
+  status: 'open' | 'resolved' | 'dismissed';
+  createdAt?: Timestamp;
+};
+
+// hidden_content/{targetKey}: moderator-only copy of the blanked text and attachments
+export type HiddenContentDoc = {
+  id: string;
+  questionId: string;
+  answerId: string | null;
+  uid: string; // the author
+  category: string;
+  content: { title?: string; body: string; attachments?: Attachment[] };
+  hiddenBy: string;
+  hiddenAt?: Timestamp;
+};
+
+export type ModerationAction = 'hide' | 'restore' | 'delete' | 'dismiss';
+
+// moderation_log/{id}, written by the moderation functions
+export type ModerationLogDoc = {
+  id: string;
+  action: ModerationAction | 'revokeVerification' | 'grantModerator' | 'revokeModerator';
+  moderatorId: string;
+  targetKey?: string;
+  questionId?: string;
+  answerId?: string | null;
+  uid?: string; // the affected user
+  category?: string;
+  note?: string;
+  createdAt?: Timestamp;
+};
+
+export type ModerateContentRequest = {
+  appId: string;
+  questionId: string;
+  answerId?: string | null;
+  action: ModerationAction;
+  note?: string;
+};
+
+export type RevokeVerificationRequest = {
+  appId: string;
+  uid: string;
+  category: string;
+  note?: string;
+};
+
+export type SetModeratorRequest = {
+  appId: string;
+  uid: string;
+  moderator: boolean;
+};
+
+// questions/{id}/revisions/{n} and .../answers/{id}/revisions/{n}: the text
+// that edit n replaced, so revision 1 is the original post. Append-only.
+export type RevisionDoc = {
+  id: string;
+  revision: number;
+  title?: string; // questions only
+  body: string;
+  editedBy: string;
+  editedAt?: Timestamp; // when this text was replaced
+};
+
+export type StartQuizRequest = {
+  appId: string;
+  category: string;
+  level: ExpertiseLevel;
+};
+
+export type QuizTimeLimits = {
+  perQuestionSeconds: number | null; // null = untimed
+  totalSeconds: number | null;
+};
+
+export type StartQuizResponse = {
+  attemptId: string;
+  questions: QuizQuestion[];
+  timeLimits: QuizTimeLimits;
+};
+
+export type QuizSubmission = {
+  answers: Record<string, QuizAnswer>; // question id -> answer in the question's type
+  questionTimesMs: Record<string, number>;
+};
+
+export type GradeQuizRequest = QuizSubmission & {
+  appId: string;
+  attemptId: string;
+};
+
+export type QuizQuestionReview = {
+  id: string;
+  question: string;
+  type: QuizQuestionType;
+  correct: boolean;
+  yourAnswer: QuizAnswer;
+  correctAnswer: string;
+  explanation: string | null;
+};
+
+export type GradeQuizResponse = {
+  score: number;
+  total: number;
+  passed: boolean;
+  elapsedMs: number; // measured server-side from attempt start
+  timedOut: boolean;
+  review: QuizQuestionReview[];
+  level: ExpertiseLevel;
+  expiresAtMs: number | null; // set when the pass renewed or raised the verification
+};
+
+// Public-safe profile; the owner writes displayName, gradeQuiz mirrors verifications
+export type ProfileDoc = {
+  id: string; // uid
+  displayName?: string;
+  verifications?: Record<string, { level: ExpertiseLevel; expiresAt: Timestamp }>;
+  updatedAt?: Timestamp;
+};
+
+// Written by castVote and the accepted-answer trigger
+export type ReputationDoc = {
+  id: string; // uid
+  total: number;
+  categories?: Record<string, number>;
+  updatedAt?: Timestamp;
+};
+
+export type VoteValue = -1 | 0 | 1; // 0 withdraws the vote
+
+export type CastVoteRequest = {
+  appId: string;
+  questionId: string;
+  answerId: string;
+  value: VoteValue;
+};
+
+export type CastVoteResponse = {
+  score: number;
+  value: VoteValue;
+};
+
+export type OfferBountyRequest = {
+  appId: string;
+  questionId: string;
+  amount: number;
+  days: number;
+};
+
+export type CategoryVerification = {
+  level: ExpertiseLevel;
+  passedAt: Timestamp;
+  expiresAt: Timestamp;
+  score: number;
+  total: number;
+};
+
+export type VerificationDoc = {
+  id: string; // uid
+  displayName?: string | null;
+  verifiedCategories: string[]; // every category ever passed; see `categories` for level and expiry
+  categories?: Record<string, CategoryVerification>;
+  lastUpdated?: Timestamp;
+};
+
+// The user's unexpired verification in a category (see lib/verifications.ts)
+export type ActiveVerification = { category: string; level: ExpertiseLevel; expiresAt: number };
+
+export type FeedStatusFilter = 'All' | 'Open' | 'Closed' | 'Unanswered';
+export type FeedSort = 'newest' | 'votes' | 'answers';
+
+export type FeedFilters = {
+  category: string; // 'All' or a category name
+  status: FeedStatusFilter;
+  sort: FeedSort;
+};
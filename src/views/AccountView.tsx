@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import {
+  createUserWithEmailAndPassword,
+  EmailAuthProvider,
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  linkWithCredential,
+  linkWithPopup,
+  OAuthProvider,
+  sendPasswordResetEmail,
+  signInAnonymously,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut,
+  updateProfile,
+  type AuthError,
+  type User,
+} from 'firebase/auth';
+import { LogIn, LogOut, User as UserIcon } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { describeAuthError } from '../auth/authHelpers.ts';
+import { DISPLAY_NAME_MAX_LENGTH } from '../constants.ts';
+
+// Sign-in, linking the anonymous guest, display name
+const OAUTH_PROVIDERS = [
+  { id: 'google.com', label: 'Google', create: () => new GoogleAuthProvider() },
+  { id: 'github.com', label: 'GitHub', create: () => new GithubAuthProvider() },
+] as const;
+
+export const AccountView: React.FC<{
+  user: User;
+  onBack: () => void;
+}> = ({ user, onBack }) => {
+  const { auth } = useAuth();
+  const [mode, setMode] = useState<'signIn' | 'create'>('create');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [nameInput, setNameInput] = useState(user.displayName || '');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (e) {
+      console.error('[Auth] account action failed', e);
+      setNotice(describeAuthError(e));
+    }
+    setIsBusy(false);
+  };
+
+  // Guests upgrade in place: linking keeps the uid, so verifications, attempts
+  // and answers carry over. Signing in to an existing account switches uid.
+  const handleEmailSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    void run(async () => {
+      if (mode === 'signIn') {
+        await signInWithEmailAndPassword(auth, email.trim(), password);
+        return null;
+      }
+      if (user.isAnonymous) {
+        await linkWithCredential(user, EmailAuthProvider.credential(email.trim(), password));
+      } else {
+        await createUserWithEmailAndPassword(auth, email.trim(), password);
+      }
+      return null;
+    });
+  };
+
+  const handleProvider = (provider: (typeof OAUTH_PROVIDERS)[number]) =>
+    void run(async () => {
+      if (!user.isAnonymous) {
+        await signInWithPopup(auth, provider.create());
+        return null;
+      }
+      try {
+        await linkWithPopup(user, provider.create());
+        return null;
+      } catch (e) {
+        // The provider account already exists: sign in to it instead. The guest's
+        // progress stays with the guest uid, so tell the user.
+        const credential = OAuthProvider.credentialFromError(e as AuthError);
+        if ((e as AuthError).code !== 'auth/credential-already-in-use' || !credential) throw e;
+        await signInWithCredential(auth, credential);
+        return `Signed in to your existing ${provider.label} account. Progress made as a guest was not merged.`;
+      }
+    });
+
+  const handlePasswordReset = () =>
+    void run(async () => {
+      if (!email.trim()) return 'Enter your email above first.';
+      await sendPasswordResetEmail(auth, email.trim());
+      return `Password reset email sent to ${email.trim()}.`;
+    });
+
+  const handleSaveName = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = nameInput.trim();
+    if (!name) return;
+    void run(async () => {
+      await updateProfile(user, { displayName: name });
+      // Refresh the ID token so functions see the new name in token.name (and
+      // AuthProvider's token listener re-reads the profile)
+      await user.getIdToken(true);
+      return 'Display name saved.';
+    });
+  };
+
+  const handleSignOut = () =>
+    void run(async () => {
+      await signOut(auth);
+      // Keep browsing as a fresh guest; AuthProvider's token listener picks up the new user
+      await signInAnonymously(auth);
+      onBack();
+      return null;
+    });
+
+  const linkedProviders = user.providerData.map((p) => p.providerId);
+
+  return (
+    <div className="p-8 max-w-xl mx-auto bg-white rounded-xl shadow-2xl border border-indigo-200 space-y-6">
+      <h2 className="text-3xl font-bold text-gray-800 flex items-center">
+        <UserIcon size={24} className="mr-2 text-indigo-600" />
+        Account
+      </h2>
+      {notice && <div className="p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{notice}</div>}
+
+      <div className="text-sm text-gray-600">
+        {user.isAnonymous ? (
+          <p>
+            You are browsing as a guest. Create an account to keep your verifications when browser
+            storage is cleared or on another device.
+          </p>
+        ) : (
+          <p>
+            Signed in as <span className="font-semibold">{user.email || user.displayName || user.uid}</span>
+            {linkedProviders.length > 0 && ` (${linkedProviders.join(', ')})`}.
+          </p>
+        )}
+      </div>
+
+      {!user.isAnonymous && (
+        <form onSubmit={handleSaveName} className="space-y-2">
+          <label htmlFor="display-name" className="block text-sm font-medium text-gray-700">
+            Display name
+          </label>
+          <div className="flex space-x-2">
+            <input
+              id="display-name"
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              maxLength={DISPLAY_NAME_MAX_LENGTH}
+              className="flex-1 border border-gray-300 rounded-lg p-2"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !nameInput.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {user.isAnonymous && (
+        <>
+          <div className="flex space-x-4 text-sm font-semibold">
+            <button
+              onClick={() => setMode('create')}
+              className={mode === 'create' ? 'text-indigo-700' : 'text-gray-500 hover:text-indigo-600'}
+            >
+              Create account
+            </button>
+            <button
+              onClick={() => setMode('signIn')}
+              className={mode === 'signIn' ? 'text-indigo-700' : 'text-gray-500 hover:text-indigo-600'}
+            >
+              Sign in
+            </button>
+          </div>
+          {mode === 'signIn' && (
+            <p className="text-xs text-gray-500">
+              Signing in to an existing account leaves anything done as a guest behind.
+            </p>
+          )}
+          <form onSubmit={handleEmailSubmit} className="space-y-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              className="block w-full border border-gray-300 rounded-lg p-2"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+              className="block w-full border border-gray-300 rounded-lg p-2"
+            />
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center"
+            >
+              <LogIn size={18} className="mr-2" />
+              {mode === 'create' ? 'Create Account' : 'Sign In'}
+            </button>
+            {mode === 'signIn' && (
+              <button
+                type="button"
+                onClick={handlePasswordReset}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Forgot password?
+              </button>
+            )}
+          </form>
+          <div className="space-y-2">
+            {OAUTH_PROVIDERS.map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => handleProvider(provider)}
+                disabled={isBusy}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-4 rounded-lg"
+              >
+                Continue with {provider.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 font-medium">
+          &larr; Back to Question Feed
+        </button>
+        {!user.isAnonymous && (
+          <button
+            onClick={handleSignOut}
+            disabled={isBusy}
+            className="text-gray-600 hover:text-red-500 font-medium flex items-center"
+          >
+            <LogOut size={18} className="mr-1" /> Sign Out
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Award, MessageSquare } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { ReputationBadge } from '../components/badges.tsx';
+import * as answersRepo from '../data/answersRepo.ts';
+import * as profilesRepo from '../data/profilesRepo.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import { toPlainExcerpt } from '../lib/markdown.ts';
+import type { AnswerDoc, ProfileDoc, ReputationDoc } from '../types.ts';
+
+// Public profile: verifications, reputation and recent answers
+export const ExpertProfileView: React.FC<{
+  uid: string;
+  onOpenQuestion: (questionId: string) => void;
+  onBack: () => void;
+}> = ({ uid, onOpenQuestion, onBack }) => {
+  const { db } = useAuth();
+  const [profile, setProfile] = useState<ProfileDoc | null>(null);
+  const [reputation, setReputation] = useState<ReputationDoc | null>(null);
+  const [answers, setAnswers] = useState<AnswerDoc[]>([]);
+  const [counts, setCounts] = useState<{ answers: number; accepted: number } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubProfile = profilesRepo.subscribeProfile(db, uid, setProfile, (err) => {
+      console.error('Error fetching profile:', err);
+      setNotice('Failed to load this profile.');
+    });
+    const unsubRep = profilesRepo.subscribeReputation(db, uid, setReputation, (err) => {
+      console.error('Error fetching reputation:', err);
+    });
+    return () => {
+      unsubProfile();
+      unsubRep();
+    };
+  }, [db, uid]);
+
+  useEffect(() => {
+    answersRepo
+      .fetchAnswerHistory(db, uid)
+      .then((history) => {
+        setAnswers(history.answers.filter((a) => !a.hidden));
+        setCounts(history.counts);
+      })
+      .catch((err) => {
+        console.error('Error fetching answer history:', err);
+        setNotice('Failed to load answer history.');
+      });
+  }, [db, uid]);
+
+  const verifications = Object.entries(profile?.verifications ?? {})
+    .map(([category, v]) => ({ category, level: v.level, expiresAt: v.expiresAt.toMillis() }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto space-y-6">
+      <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium">
+        &larr; Back to Question Feed
+      </button>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        <h2 className="text-3xl font-bold text-gray-900 mb-1 flex items-center space-x-3">
+          <span>{profile?.displayName || `User-${uid.substring(0, 8)}`}</span>
+          <ReputationBadge reputation={reputation?.total} />
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {counts
+            ? `${counts.answers} ${counts.answers === 1 ? 'answer' : 'answers'} · ${counts.accepted} accepted`
+            : 'Loading activity...'}
+        </p>
+        {notice && <div className="mb-4 p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{notice}</div>}
+        {verifications.length === 0 ? (
+          <p className="text-gray-500">No verified categories yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {verifications.map((v) => {
+              const expired = v.expiresAt <= Date.now();
+              return (
+                <div key={v.category} className="flex justify-between items-center text-sm">
+                  <span className={`flex items-center font-semibold ${expired ? 'text-gray-500' : 'text-green-600'}`}>
+                    <Award size={16} className="mr-1" /> {v.category} &middot; {v.level}
+                  </span>
+                  <span className="text-gray-500">
+                    {reputation?.categories?.[v.category] ?? 0} rep &middot; {expired ? 'Expired' : 'Valid until'}{' '}
+                    {new Date(v.expiresAt).toLocaleDateString()}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center">
+          <MessageSquare size={20} className="mr-2 text-indigo-600" />
+          Recent Answers
+        </h3>
+        {answers.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-xl text-gray-500">No answers yet.</div>
+        ) : (
+          <div className="space-y-4">
+            {answers.map((a) => (
+              <div key={a.id} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                {a.questionId && (
+                  <button
+                    onClick={() => onOpenQuestion(a.questionId!)}
+                    className="font-semibold text-gray-900 hover:text-indigo-600 mb-1 text-left"
+                  >
+                    {a.questionTitle || 'View question'}
+                  </button>
+                )}
+                <p className="text-gray-700 line-clamp-2">{toPlainExcerpt(a.body)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {a.category} &middot; {formatTimestamp(a.createdAt, a.createdAtMs)}
+                  {a.accepted && <span className="ml-2 text-green-600 font-semibold">Accepted</span>}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
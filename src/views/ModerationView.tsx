@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Shield } from 'lucide-react';
+import type { FunctionsError } from 'firebase/functions';
+import { useAuth } from '../auth/AuthContext.ts';
+import { AttachmentPreviews } from '../components/Attachments.tsx';
+import { FLAG_REASON_LABELS } from '../constants.ts';
+import * as answersRepo from '../data/answersRepo.ts';
+import * as moderationRepo from '../data/moderationRepo.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import { toPlainExcerpt } from '../lib/markdown.ts';
+import { tabClassName } from '../lib/ui.ts';
+import type {
+  AnswerDoc,
+  FlagDoc,
+  HiddenContentDoc,
+  ModerationAction,
+  ModerationLogDoc,
+  QuestionDoc,
+} from '../types.ts';
+
+const MODERATION_LOG_LABELS: Record<ModerationLogDoc['action'], string> = {
+  hide: 'Hid',
+  restore: 'Restored',
+  delete: 'Deleted',
+  dismiss: 'Dismissed flags on',
+  revokeVerification: 'Revoked verification of',
+  grantModerator: 'Made moderator',
+  revokeModerator: 'Removed moderator',
+};
+
+// One queue entry per flagged question or answer, with all of its open flags
+const FlaggedContentCard: React.FC<{
+  flags: FlagDoc[];
+  onModerate: (action: ModerationAction, note: string) => Promise<void>;
+  onRevokeVerification: (uid: string, category: string, note: string) => Promise<void>;
+  onOpenQuestion: (questionId: string) => void;
+}> = ({ flags, onModerate, onRevokeVerification, onOpenQuestion }) => {
+  const { db } = useAuth();
+  const { questionId, answerId } = flags[0];
+  const [target, setTarget] = useState<(QuestionDoc | AnswerDoc) | null | undefined>(undefined); // undefined = loading
+  const [note, setNote] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    const onError = (err: Error) => {
+      console.error('Error fetching flagged content:', err);
+      setTarget(null);
+    };
+    return answerId
+      ? answersRepo.subscribeAnswer(db, questionId, answerId, setTarget, onError)
+      : questionsRepo.subscribeQuestion(db, questionId, setTarget, onError);
+  }, [db, questionId, answerId]);
+
+  const run = async (task: Promise<void>) => {
+    setIsBusy(true);
+    await task;
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-3">
+      <div className="flex justify-between items-center text-sm">
+        <span className="font-semibold text-gray-800">
+          {answerId ? 'Answer' : 'Question'} &middot; {flags.length} {flags.length === 1 ? 'flag' : 'flags'}
+        </span>
+        <button onClick={() => onOpenQuestion(questionId)} className="text-indigo-600 hover:text-indigo-800">
+          Open question
+        </button>
+      </div>
+      {target === undefined ? (
+        <p className="text-sm text-gray-500">Loading content...</p>
+      ) : target === null ? (
+        <p className="text-sm text-gray-500">This content no longer exists.</p>
+      ) : target.hidden ? (
+        <p className="text-sm text-gray-500">Hidden (see the Hidden tab to restore it).</p>
+      ) : (
+        <div className="p-3 bg-gray-50 rounded-lg text-sm">
+          {'title' in target && <p className="font-semibold text-gray-900">{target.title}</p>}
+          <p className="text-gray-700 line-clamp-2">{toPlainExcerpt(target.body)}</p>
+          <AttachmentPreviews attachments={target.attachments} />
+          <p className="text-xs text-gray-500 mt-1">
+            by <span className="font-mono">{target.authorId.substring(0, 8)}</span> &middot; {target.category}
+          </p>
+        </div>
+      )}
+      <ul className="text-sm text-gray-700 space-y-1">
+        {flags.map((f) => (
+          <li key={f.id}>
+            <span className="font-semibold">{FLAG_REASON_LABELS[f.reason] ?? f.reason}</span>
+            {f.details && <> &mdash; {f.details}</>}
+            <span className="text-xs text-gray-500"> ({formatTimestamp(f.createdAt)})</span>
+          </li>
+        ))}
+      </ul>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the audit log (optional)"
+        className="block w-full border border-gray-300 rounded-lg p-2 text-sm"
+      />
+      <div className="flex flex-wrap items-center space-x-3 text-sm font-medium">
+        {target && !target.hidden && (
+          <button
+            disabled={isBusy}
+            onClick={() => void run(onModerate('hide', note))}
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            Hide
+          </button>
+        )}
+        {target && (
+          <button
+            disabled={isBusy}
+            onClick={() => {
+              if (window.confirm('Delete this permanently? The audit log keeps a copy of the text.')) {
+                void run(onModerate('delete', note));
+              }
+            }}
+            className="text-red-700 hover:text-red-500"
+          >
+            Delete
+          </button>
+        )}
+        <button
+          disabled={isBusy}
+          onClick={() => void run(onModerate('dismiss', note))}
+          className="text-gray-600 hover:text-gray-800"
+        >
+          Dismiss flags
+        </button>
+        {target && answerId && (
+          <button
+            disabled={isBusy}
+            onClick={() => void run(onRevokeVerification(target.authorId, target.category, note))}
+            className="text-red-700 hover:text-red-500"
+          >
+            Revoke author's {target.category} verification
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Requires the `moderator` or `admin` custom claim; admins also manage the moderator role
+export const ModerationView: React.FC<{
+  onOpenQuestion: (questionId: string) => void;
+  onBack: () => void;
+}> = ({ onOpenQuestion, onBack }) => {
+  const { db, functions, isAdmin } = useAuth();
+  const [tab, setTab] = useState<'queue' | 'hidden' | 'log'>('queue');
+  const [flags, setFlags] = useState<FlagDoc[] | null>(null);
+  const [hiddenContent, setHiddenContent] = useState<HiddenContentDoc[] | null>(null);
+  const [log, setLog] = useState<ModerationLogDoc[] | null>(null);
+  const [roleUid, setRoleUid] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onError = (what: string) => (err: Error) => {
+      console.error(`Error fetching ${what}:`, err);
+      setNotice(`Failed to load ${what}.`);
+    };
+    const unsubFlags = moderationRepo.subscribeOpenFlags(db, setFlags, onError('flags'));
+    const unsubHidden = moderationRepo.subscribeHiddenContent(db, setHiddenContent, onError('hidden content'));
+    const unsubLog = moderationRepo.subscribeModerationLog(db, setLog, onError('the moderation log'));
+    return () => {
+      unsubFlags();
+      unsubHidden();
+      unsubLog();
+    };
+  }, [db]);
+
+  // Newest flag first; a target's flags are grouped under its newest one
+  const flagGroups = useMemo(() => {
+    const groups = new Map<string, FlagDoc[]>();
+    (flags ?? []).forEach((f) => groups.set(f.targetKey, [...(groups.get(f.targetKey) ?? []), f]));
+    return [...groups.values()];
+  }, [flags]);
+
+  const callFunction = async (name: string, call: Promise<unknown>, done: string) => {
+    try {
+      await call;
+      setNotice(done);
+    } catch (e) {
+      console.error(`Error calling ${name}:`, e);
+      setNotice((e as FunctionsError).message || 'The moderation action failed.');
+    }
+  };
+
+  const moderate = (questionId: string, answerId: string | null, action: ModerationAction, note = '') =>
+    callFunction(
+      'moderateContent',
+      moderationRepo.moderateContent(functions, { questionId, answerId, action, note }),
+      `${MODERATION_LOG_LABELS[action]} the ${answerId ? 'answer' : 'question'}.`,
+    );
+
+  const handleSetModerator = (moderator: boolean) => {
+    if (!roleUid.trim()) return;
+    void callFunction(
+      'setModerator',
+      moderationRepo.setModerator(functions, { uid: roleUid.trim(), moderator }),
+      `${moderator ? 'Granted' : 'Removed'} the moderator role. It applies once the user's token refreshes.`,
+    ).then(() => setRoleUid(''));
+  };
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto space-y-6">
+      <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium">
+        &larr; Back to Question Feed
+      </button>
+      <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+        <Shield size={26} className="mr-2 text-indigo-600" /> Moderation
+      </h2>
+      {notice && <div className="p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{notice}</div>}
+
+      <div className="flex space-x-2">
+        <button onClick={() => setTab('queue')} className={tabClassName(tab === 'queue')}>
+          Queue ({flagGroups.length})
+        </button>
+        <button onClick={() => setTab('hidden')} className={tabClassName(tab === 'hidden')}>
+          Hidden
+        </button>
+        <button onClick={() => setTab('log')} className={tabClassName(tab === 'log')}>
+          Audit log
+        </button>
+      </div>
+
+      {tab === 'queue' &&
+        (flags === null ? (
+          <p className="text-gray-500">Loading flags...</p>
+        ) : flagGroups.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-xl text-gray-500">No open flags.</div>
+        ) : (
+          <div className="space-y-4">
+            {flagGroups.map((group) => (
+              <FlaggedContentCard
+                key={group[0].targetKey}
+                flags={group}
+                onModerate={(action, note) => moderate(group[0].questionId, group[0].answerId, action, note)}
+                onRevokeVerification={(uid, category, note) =>
+                  callFunction(
+                    'revokeVerification',
+                    moderationRepo.revokeVerification(functions, { uid, category, note }),
+                    `Revoked the ${category} verification.`,
+                  )
+                }
+                onOpenQuestion={onOpenQuestion}
+              />
+            ))}
+          </div>
+        ))}
+
+      {tab === 'hidden' &&
+        (hiddenContent === null ? (
+          <p className="text-gray-500">Loading hidden content...</p>
+        ) : hiddenContent.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-xl text-gray-500">Nothing is hidden.</div>
+        ) : (
+          <div className="space-y-4">
+            {hiddenContent.map((h) => (
+              <div key={h.id} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm text-sm space-y-2">
+                <p className="text-xs text-gray-500">
+                  {h.answerId ? 'Answer' : 'Question'} in {h.category} &middot; hidden {formatTimestamp(h.hiddenAt)}
+                </p>
+                {h.content.title && <p className="font-semibold text-gray-900">{h.content.title}</p>}
+                <p className="text-gray-700 line-clamp-2">{toPlainExcerpt(h.content.body)}</p>
+                <AttachmentPreviews attachments={h.content.attachments} />
+                <div className="flex items-center space-x-3 font-medium">
+                  <button
+                    onClick={() => void moderate(h.questionId, h.answerId, 'restore')}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('Delete this permanently? The audit log keeps a copy of the text.')) {
+                        void moderate(h.questionId, h.answerId, 'delete');
+                      }
+                    }}
+                    className="text-red-700 hover:text-red-500"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+
+      {tab === 'log' &&
+        (log === null ? (
+          <p className="text-gray-500">Loading the audit log...</p>
+        ) : (
+          <table className="w-full text-sm text-gray-600">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th>When</th>
+                <th>Moderator</th>
+                <th>Action</th>
+                <th>Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{formatTimestamp(entry.createdAt)}</td>
+                  <td className="font-mono text-xs">{entry.moderatorId.substring(0, 8)}</td>
+                  <td>
+                    {MODERATION_LOG_LABELS[entry.action] ?? entry.action}{' '}
+                    {entry.category
+                      ? `${entry.category} for ${entry.uid?.substring(0, 8)}`
+                      : entry.targetKey
+                        ? `${entry.answerId ? 'answer' : 'question'} ${entry.targetKey}`
+                        : entry.uid?.substring(0, 8)}
+                  </td>
+                  <td>{entry.note || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+
+      {isAdmin && (
+        <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 space-y-3">
+          <h3 className="text-xl font-bold text-gray-800">Moderators</h3>
+          <input
+            type="text"
+            value={roleUid}
+            onChange={(e) => setRoleUid(e.target.value)}
+            placeholder="User id"
+            className="block w-full border border-gray-300 rounded-lg p-2 text-sm font-mono"
+          />
+          <div className="flex items-center space-x-3 text-sm font-medium">
+            <button onClick={() => handleSetModerator(true)} className="text-indigo-600 hover:text-indigo-800">
+              Grant moderator
+            </button>
+            <button onClick={() => handleSetModerator(false)} className="text-red-700 hover:text-red-500">
+              Remove moderator
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { NOTIFICATION_TYPE_LABELS, NOTIFICATION_TYPES } from '../constants.ts';
+import * as notificationsRepo from '../data/notificationsRepo.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import type { NotificationDoc, NotificationPrefsDoc } from '../types.ts';
+
+const describeNotification = (n: NotificationDoc) => {
+  switch (n.type) {
+    case 'answer':
+      return `${n.actorName || 'An expert'} answered "${n.questionTitle}"`;
+    case 'accepted':
+      return `${n.actorName || 'The author'} accepted your answer to "${n.questionTitle}"`;
+    case 'vote':
+      return `Your answer to "${n.questionTitle}" was ${n.value === -1 ? 'downvoted' : 'upvoted'}`;
+    case 'question':
+      return `New ${n.category} question: "${n.questionTitle}"`;
+    case 'tag':
+      return `New question with a tag you follow: "${n.questionTitle}"`;
+    case 'bounty':
+      return `Your answer to "${n.questionTitle}" earned a +${n.amount ?? 0} bounty`;
+    default:
+      return n.questionTitle;
+  }
+};
+
+// Inbox written by functions, preferences by the owner
+export const NotificationsView: React.FC<{
+  uid: string;
+  categories: string[]; // offered for muting
+  onOpenQuestion: (questionId: string) => void;
+  onBack: () => void;
+}> = ({ uid, categories, onOpenQuestion, onBack }) => {
+  const { db } = useAuth();
+  const [items, setItems] = useState<NotificationDoc[] | null>(null);
+  const [prefs, setPrefs] = useState<NotificationPrefsDoc>({});
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubItems = notificationsRepo.subscribeNotifications(db, uid, setItems, (err) => {
+      console.error('Error fetching notifications:', err);
+      setNotice('Failed to load notifications.');
+    });
+    const unsubPrefs = notificationsRepo.subscribePrefs(db, uid, setPrefs, (err) => {
+      console.error('Error fetching notification preferences:', err);
+    });
+    return () => {
+      unsubItems();
+      unsubPrefs();
+    };
+  }, [db, uid]);
+
+  const markRead = (ids: string[]) => {
+    if (!ids.length) return;
+    notificationsRepo.markRead(db, uid, ids).catch((err) => {
+      console.error('Error marking notifications read:', err);
+      setNotice('Could not mark notifications as read.');
+    });
+  };
+
+  const toggleMuted = (key: 'mutedTypes' | 'mutedCategories', value: string) => {
+    const current: string[] = prefs[key] ?? [];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    notificationsRepo.setMuted(db, uid, key, next).catch((err) => {
+      console.error('Error saving notification preferences:', err);
+      setNotice('Could not save your notification preferences.');
+    });
+  };
+
+  const unreadIds = (items ?? []).filter((n) => !n.read).map((n) => n.id);
+  // Muted categories no longer offered (e.g. a retired bank) stay listed so they can be unmuted
+  const mutableCategories = [...new Set([...categories, ...(prefs.mutedCategories ?? [])])].sort();
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto space-y-6">
+      <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium">
+        &larr; Back to Question Feed
+      </button>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Bell size={22} className="mr-2 text-indigo-600" /> Notifications
+          </h2>
+          <button
+            onClick={() => markRead(unreadIds)}
+            disabled={!unreadIds.length}
+            className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            Mark all as read
+          </button>
+        </div>
+        {notice && <div className="mb-4 p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{notice}</div>}
+        {items === null ? (
+          <p className="text-gray-500">Loading notifications...</p>
+        ) : items.length === 0 ? (
+          <p className="text-gray-500">You're all caught up.</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((n) => (
+              <button
+                key={n.id}
+                onClick={() => {
+                  if (!n.read) markRead([n.id]);
+                  onOpenQuestion(n.questionId);
+                }}
+                className={`w-full text-left p-3 rounded-lg border ${
+                  n.read ? 'border-gray-100 text-gray-600' : 'border-gray-200 bg-indigo-100 text-gray-900 font-medium'
+                }`}
+              >
+                <span className="block">{describeNotification(n)}</span>
+                <span className="block text-xs text-gray-500 mt-1">
+                  {n.category} &middot; {formatTimestamp(n.createdAt)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        <h3 className="text-xl font-bold text-gray-800 mb-4">Notify me about</h3>
+        <div className="space-y-2">
+          {NOTIFICATION_TYPES.map((type) => (
+            <label key={type} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!prefs.mutedTypes?.includes(type)}
+                onChange={() => toggleMuted('mutedTypes', type)}
+                className="mr-2"
+              />
+              {NOTIFICATION_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+        {mutableCategories.length > 0 && (
+          <>
+            <h4 className="font-semibold text-gray-700 mt-6 mb-2">Categories</h4>
+            <div className="space-y-2">
+              {mutableCategories.map((category) => (
+                <label key={category} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!prefs.mutedCategories?.includes(category)}
+                    onChange={() => toggleMuted('mutedCategories', category)}
+                    className="mr-2"
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
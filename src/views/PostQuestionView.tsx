@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Edit, Send, X } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { AttachmentPicker } from '../components/Attachments.tsx';
+import { MarkdownEditor } from '../components/Markdown.tsx';
+import { SimilarQuestions } from '../components/SimilarQuestions.tsx';
+import { TagInput } from '../components/TagInput.tsx';
+import {
+  BODY_MAX_LENGTH,
+  describeRateLimit,
+  QUESTION_TITLE_MAX_LENGTH,
+  QUESTION_TITLE_MIN_LENGTH,
+} from '../constants.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads.ts';
+import { useSync } from '../sync/SyncContext.ts';
+import type { Attachment, QuizBankDoc } from '../types.ts';
+
+export const PostQuestionView: React.FC<{
+  banks: QuizBankDoc[];
+  onPosted: () => void;
+  onOpenQuestion: (questionId: string) => void;
+  onCancel: () => void;
+}> = ({ banks, onPosted, onOpenQuestion, onCancel }) => {
+  const { db, userId, displayName, isAnonymous } = useAuth();
+  const { isOnline, queueWrite } = useSync();
+  const [title, setTitle] = useState<string>('');
+  const [body, setBody] = useState<string>('');
+  const [category, setCategory] = useState<string>(banks[0]?.category || 'General');
+  const [tags, setTags] = useState<string[]>([]);
+  const uploads = useAttachmentUploads();
+  // A rejected post (usually the rate limit) keeps the draft and its uploads
+  const [notice, setNotice] = useState<string | null>(null);
+  const subTopics = banks.find((b) => b.category === category)?.subTopics ?? [];
+
+  // Sub-topics of the previous category may not be allowed in the new one
+  const changeCategory = (next: string) => {
+    const allowed = banks.find((b) => b.category === next)?.subTopics ?? [];
+    setCategory(next);
+    setTags(allowed.length ? tags.filter((t) => allowed.includes(t)) : tags);
+  };
+
+  const postQuestion = async (question: {
+    title: string;
+    body: string;
+    category: string;
+    tags: string[];
+    attachments: Attachment[];
+  }) => {
+    if (!userId) return;
+    setNotice(null);
+    const failureMessage =
+      `Could not post question. You can post one question every ${describeRateLimit('question', isAnonymous)}` +
+      `${isAnonymous ? ' as a guest' : ''}; otherwise check your network connection.`;
+    const { path, commit } = questionsRepo.createQuestion(db, { uid: userId, displayName }, question);
+    // Offline the question shows in the feed from the local cache and is sent
+    // when the connection returns
+    if (!isOnline) {
+      queueWrite({ kind: 'question', label: question.title, path }, commit, failureMessage);
+      uploads.clear();
+      onPosted();
+      return;
+    }
+    try {
+      await commit;
+      uploads.clear();
+      onPosted();
+    } catch (e) {
+      console.error('Error posting question:', e);
+      setNotice(failureMessage);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (title.trim().length >= QUESTION_TITLE_MIN_LENGTH && body.trim() && category && !uploads.isUploading) {
+      void postQuestion({ title: title.trim(), body: body.trim(), category, tags, attachments: uploads.attachments });
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-xl mx-auto bg-white rounded-xl shadow-2xl border border-indigo-200">
+      <h2 className="text-3xl font-bold text-gray-800 mb-6 flex items-center">
+        <Edit size={24} className="mr-2 text-indigo-600" />
+        Post a New Question
+      </h2>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+            Question Title (Summary)
+          </label>
+          <input
+            id="title"
+            type="text"
+            value={title}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+            placeholder="What is the difference between a mutex and a semaphore?"
+            className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-indigo-500 focus:border-indigo-500"
+            minLength={QUESTION_TITLE_MIN_LENGTH}
+            maxLength={QUESTION_TITLE_MAX_LENGTH}
+            required
+          />
+          <SimilarQuestions title={title} onOpenQuestion={onOpenQuestion} />
+        </div>
+        <div>
+          <label htmlFor="body" className="block text-sm font-medium text-gray-700">
+            Detailed Question
+          </label>
+          <MarkdownEditor
+            id="body"
+            value={body}
+            onChange={setBody}
+            rows={6}
+            placeholder="Provide all necessary details and context for the experts..."
+            className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-indigo-500 focus:border-indigo-500"
+            required
+            maxLength={BODY_MAX_LENGTH}
+          />
+        </div>
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+            Category
+          </label>
+          <select
+            id="category"
+            value={category}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changeCategory(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+            required
+          >
+            {banks.map((bank) => (
+              <option key={bank.category} value={bank.category}>
+                {bank.category}
+              </option>
+            ))}
+            <option value="General">General</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-gray-700">
+            Tags
+          </label>
+          <TagInput id="tags" value={tags} onChange={setTags} subTopics={subTopics} />
+        </div>
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">Attachments</span>
+          <AttachmentPicker uploads={uploads} />
+        </div>
+        {notice && (
+          <div className="p-3 rounded-lg bg-yellow-100 text-sm text-gray-700 flex justify-between items-center">
+            <span>{notice}</span>
+            <button type="button" onClick={() => setNotice(null)} className="text-gray-500 hover:text-gray-800">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={uploads.isUploading}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition duration-200 shadow-md flex items-center justify-center"
+        >
+          <Send size={18} className="mr-2" />
+          Submit Question
+        </button>
+      </form>
+      <button
+        onClick={onCancel}
+        className="mt-6 text-gray-600 hover:text-gray-800 transition duration-150 font-medium w-full text-center"
+      >
+        &larr; Cancel
+      </button>
+    </div>
+  );
+};
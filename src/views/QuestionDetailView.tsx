@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { MessageSquare, Pencil, X } from 'lucide-react';
+import type { FunctionsError } from 'firebase/functions';
+import { useAuth } from '../auth/AuthContext.ts';
+import { AnswerCard } from '../components/AnswerCard.tsx';
+import { AnswerComposer } from '../components/AnswerComposer.tsx';
+import { AttachmentPreviews } from '../components/Attachments.tsx';
+import { AuthorLink } from '../components/AuthorLink.tsx';
+import { BountyPanel } from '../components/BountyPanel.tsx';
+import { ContentEditForm, EditedToggle, RevisionHistory } from '../components/EditHistory.tsx';
+import { FlagButton } from '../components/FlagButton.tsx';
+import { MarkdownBody } from '../components/Markdown.tsx';
+import { TagList } from '../components/TagList.tsx';
+import { describeRateLimit } from '../constants.ts';
+import * as answersRepo from '../data/answersRepo.ts';
+import { getPublicCollectionPath } from '../data/paths.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import { useQuestionThread } from '../hooks/useQuestionThread.ts';
+import { formatTimestamp } from '../lib/format.ts';
+import { getActiveVerification } from '../lib/verifications.ts';
+import { useSync } from '../sync/SyncContext.ts';
+import type { AnswerDoc, Attachment, QuestionDoc, VoteValue } from '../types.ts';
+
+// Callables report broken preconditions (no verification, not enough reputation)
+// with a readable message; anything else is a connectivity problem.
+const getCallableMessage = (e: unknown, action: string, fallback: string) => {
+  const err = e as FunctionsError;
+  if (err.code === 'functions/permission-denied' || err.code === 'functions/failed-precondition') {
+    return err.message;
+  }
+  console.error(`Error ${action}:`, e);
+  return fallback;
+};
+
+export const QuestionDetailView: React.FC<{
+  questionId: string;
+  onError: (message: string) => void;
+  onOpenProfile: (uid: string) => void;
+  onBack: () => void;
+}> = ({ questionId, onError, onOpenProfile, onBack }) => {
+  const { db, functions, userId, isAnonymous, displayName, verification, reputation } = useAuth();
+  const { isOnline, queueWrite } = useSync();
+  const { question, answers, myVotes, reputations } = useQuestionThread(questionId, onError);
+  // Expected failures of actions on the page (a rejected vote, post or edit);
+  // onError is for fatal ones
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (question === undefined) {
+    return <div className="p-8 text-center text-lg font-medium text-indigo-600 animate-pulse">Loading question...</div>;
+  }
+  if (!question) {
+    return (
+      <div className="p-8 text-center text-red-500">
+        This question could not be found.
+        <button onClick={onBack} className="block mx-auto mt-4 text-indigo-600 hover:text-indigo-800 font-medium">
+          &larr; Back to Question Feed
+        </button>
+      </div>
+    );
+  }
+
+  const isAuthor = question.authorId === userId;
+  const author = userId ? { uid: userId, displayName } : null;
+
+  const handleSubmitAnswer = async (answer: { body: string; attachments: Attachment[] }) => {
+    if (!author) return false;
+    const failureMessage =
+      `Could not post answer. Only experts verified in ${question.category} can answer this question, ` +
+      `at most once every ${describeRateLimit('answer', isAnonymous)}.`;
+    const { path, commit } = answersRepo.postAnswer(db, author, question, answer);
+    // Offline the answer shows from the local cache and is sent when the
+    // connection returns
+    if (!isOnline) {
+      queueWrite({ kind: 'answer', label: question.title, path }, commit, failureMessage);
+      return true;
+    }
+    try {
+      await commit;
+      return true;
+    } catch (e) {
+      console.error('Error posting answer:', e);
+      setNotice(failureMessage);
+      return false;
+    }
+  };
+
+  const handleEditQuestion = async (changes: { title?: string; body: string }) => {
+    if (!userId || !isAuthor) return false;
+    try {
+      await questionsRepo.editQuestion(db, question.id, changes, userId);
+      return true;
+    } catch (e) {
+      console.error('Error editing question:', e);
+      setNotice('Could not save your edit. Only the author can edit a question.');
+      return false;
+    }
+  };
+
+  const handleEditAnswer = async (answerId: string, body: string) => {
+    if (!userId) return false;
+    try {
+      await answersRepo.editAnswer(db, question.id, answerId, body, userId);
+      return true;
+    } catch (e) {
+      console.error('Error editing answer:', e);
+      setNotice('Could not save your edit. Only the author can edit an answer.');
+      return false;
+    }
+  };
+
+  // Rejections (not enough reputation, a bounty already running) show in the panel
+  const handleOfferBounty = async (amount: number, days: number) => {
+    try {
+      await questionsRepo.offerBounty(functions, { questionId: question.id, amount, days });
+      return null;
+    } catch (e) {
+      return getCallableMessage(e, 'offering bounty', 'Could not offer the bounty. Check your connection and try again.');
+    }
+  };
+
+  const handleVote = (answerId: string, value: VoteValue) =>
+    answersRepo
+      .castVote(functions, { questionId: question.id, answerId, value })
+      .catch((e) =>
+        setNotice(getCallableMessage(e, 'voting', 'Could not record your vote. Check your connection and try again.')),
+      );
+
+  const handleAcceptAnswer = (answerId: string | null) => {
+    if (!isAuthor) return;
+    questionsRepo.acceptAnswer(db, question, answerId).catch((e) => {
+      console.error('Error accepting answer:', e);
+      setNotice('Could not update the accepted answer. Only the question author can accept answers.');
+    });
+  };
+
+  const handleSetStatus = (status: QuestionDoc['status']) => {
+    if (!isAuthor) return;
+    questionsRepo.setQuestionStatus(db, question.id, status).catch((e) => {
+      console.error('Error updating question status:', e);
+      setNotice('Could not update the question. Only its author can open or close it.');
+    });
+  };
+
+  return (
+    <QuestionThread
+      question={question}
+      answers={answers}
+      canAnswer={!!getActiveVerification(verification, question.category)}
+      isAuthor={isAuthor}
+      viewerId={userId}
+      canFlag={!isAnonymous}
+      reputations={reputations}
+      myVotes={myVotes}
+      myReputation={reputation?.total ?? 0}
+      onSubmitAnswer={handleSubmitAnswer}
+      onEditQuestion={handleEditQuestion}
+      onEditAnswer={handleEditAnswer}
+      onOfferBounty={handleOfferBounty}
+      onVote={isAnonymous ? undefined : (answerId, value) => void handleVote(answerId, value)}
+      notice={notice}
+      onDismissNotice={() => setNotice(null)}
+      onAcceptAnswer={handleAcceptAnswer}
+      onSetStatus={handleSetStatus}
+      onOpenProfile={onOpenProfile}
+      onBack={onBack}
+    />
+  );
+};
+
+const QuestionThread: React.FC<{
+  question: QuestionDoc;
+  answers: AnswerDoc[];
+  canAnswer: boolean;
+  isAuthor: boolean;
+  viewerId: string | null;
+  canFlag: boolean; // signed in with a real account
+  reputations: Record<string, number>; // answer author uid -> total
+  myVotes: Record<string, VoteValue>; // answer id -> the viewer's vote
+  myReputation: number;
+  onSubmitAnswer: (answer: { body: string; attachments: Attachment[] }) => Promise<boolean>;
+  onEditQuestion: (changes: { title?: string; body: string }) => Promise<boolean>; // author only
+  onEditAnswer: (answerId: string, body: string) => Promise<boolean>; // the answer's author only
+  onOfferBounty: (amount: number, days: number) => Promise<string | null>; // author only; the error, if any
+  onVote?: (answerId: string, value: VoteValue) => void; // absent for guests
+  notice: string | null;
+  onDismissNotice: () => void;
+  onAcceptAnswer: (answerId: string | null) => void;
+  onSetStatus: (status: QuestionDoc['status']) => void;
+  onOpenProfile: (uid: string) => void;
+  onBack: () => void;
+}> = ({
+  question,
+  answers,
+  canAnswer,
+  isAuthor,
+  viewerId,
+  canFlag,
+  reputations,
+  myVotes,
+  myReputation,
+  onSubmitAnswer,
+  onEditQuestion,
+  onEditAnswer,
+  onOfferBounty,
+  onVote,
+  notice,
+  onDismissNotice,
+  onAcceptAnswer,
+  onSetStatus,
+  onOpenProfile,
+  onBack,
+}) => {
+  // Accepted answer first, the rest in posting order
+  const sortedAnswers = [...answers].sort(
+    (a, b) => Number(b.id === question.acceptedAnswerId) - Number(a.id === question.acceptedAnswerId),
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const questionPath = `${getPublicCollectionPath('questions')}/${question.id}`;
+  const canOfferBounty = isAuthor && canFlag && question.status === 'Open' && question.bounty?.status !== 'active';
+  const backButton = (
+    <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium">
+      &larr; Back to Question Feed
+    </button>
+  );
+
+  if (question.hidden) {
+    return (
+      <div className="p-8 max-w-2xl mx-auto space-y-6">
+        {backButton}
+        <div className="p-6 bg-gray-50 rounded-xl text-center text-gray-500">
+          This question was hidden by a moderator.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto space-y-6">
+      {backButton}
+
+      {notice && (
+        <div className="p-3 rounded-lg bg-yellow-100 text-sm text-gray-700 flex justify-between items-center">
+          <span>{notice}</span>
+          <button onClick={onDismissNotice} className="text-gray-500 hover:text-gray-800">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        <div className="flex justify-between items-start mb-3">
+          <span className="text-xs font-semibold uppercase text-indigo-600 bg-indigo-100 px-3 py-1 rounded-full">
+            {question.category}
+          </span>
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+              question.status === 'Open' ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'
+            }`}
+          >
+            {question.status}
+          </span>
+        </div>
+        {isEditing ? (
+          <div className="mb-4">
+            <ContentEditForm
+              id="edit-question-body"
+              title={question.title}
+              body={question.body}
+              onSave={onEditQuestion}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <>
+            <h2 className="text-3xl font-bold text-gray-900 mb-4">{question.title}</h2>
+            <MarkdownBody source={question.body} className="text-gray-700 mb-4" />
+            <AttachmentPreviews attachments={question.attachments} />
+            <TagList tags={question.tags} className="mb-4" />
+          </>
+        )}
+        <div className="flex items-center space-x-2 text-sm text-gray-500 pt-2 border-t border-gray-100">
+          <span>
+            Asked by <AuthorLink uid={question.authorId} name={question.authorName} onOpenProfile={onOpenProfile} />{' '}
+            &middot; {formatTimestamp(question.createdAt, question.createdAtMs)}
+          </span>
+          {(question.revisionCount ?? 0) > 0 && (
+            <EditedToggle
+              editedAt={question.editedAt}
+              isOpen={showHistory}
+              onToggle={() => setShowHistory(!showHistory)}
+            />
+          )}
+          {isAuthor && !isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="flex items-center text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              <Pencil size={14} className="mr-1" /> Edit
+            </button>
+          )}
+          {isAuthor && (
+            <button
+              onClick={() => onSetStatus(question.status === 'Open' ? 'Closed' : 'Open')}
+              className="text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              {question.status === 'Open' ? 'Close question' : 'Reopen question'}
+            </button>
+          )}
+        </div>
+        {showHistory && (
+          <div className="mt-3 pt-3 border-t border-gray-100">
+            <RevisionHistory docPath={questionPath} current={question} />
+          </div>
+        )}
+        {canFlag && viewerId && !isAuthor && (
+          <div className="flex mt-3">
+            <FlagButton reporterId={viewerId} questionId={question.id} />
+          </div>
+        )}
+      </div>
+
+      {(question.bounty || canOfferBounty) && (
+        <BountyPanel
+          bounty={question.bounty}
+          canOffer={canOfferBounty}
+          reputation={myReputation}
+          onOffer={onOfferBounty}
+        />
+      )}
+
+      <div>
+        <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center">
+          <MessageSquare size={20} className="mr-2 text-indigo-600" />
+          {answers.length} {answers.length === 1 ? 'Answer' : 'Answers'}
+        </h3>
+        {answers.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-xl text-gray-500">
+            No verified answers yet.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sortedAnswers.map((a) => {
+              const isAccepted = a.id === question.acceptedAnswerId;
+              return (
+                <AnswerCard
+                  key={a.id}
+                  questionId={question.id}
+                  answer={a}
+                  isAccepted={isAccepted}
+                  authorReputation={reputations[a.authorId]}
+                  myVote={myVotes[a.id] ?? 0}
+                  onVote={onVote && a.authorId !== viewerId ? (value) => onVote(a.id, value) : undefined}
+                  voteHint={
+                    a.authorId === viewerId ? "You can't vote on your own answer" : 'Sign in with an account to vote'
+                  }
+                  onEdit={a.authorId === viewerId ? (body) => onEditAnswer(a.id, body) : undefined}
+                  flagReporterId={canFlag && viewerId && a.authorId !== viewerId ? viewerId : undefined}
+                  onOpenProfile={onOpenProfile}
+                  onToggleAccepted={isAuthor ? () => onAcceptAnswer(isAccepted ? null : a.id) : undefined}
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+        {question.status === 'Closed' ? (
+          <p className="text-sm text-gray-500 font-medium text-center">
+            This question is closed to new answers.
+          </p>
+        ) : canAnswer ? (
+          <AnswerComposer category={question.category} onSubmit={onSubmitAnswer} />
+        ) : (
+          <p className="text-sm text-yellow-600 font-medium text-center">
+            Only experts verified in {question.category} can answer. Take the quiz to get verified.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
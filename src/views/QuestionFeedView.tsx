@@ -0,0 +1,132 @@
+import React from 'react';
+import { Edit, Gift, Hash } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { QuestionCard } from '../components/QuestionCard.tsx';
+import { DEFAULT_FEED_FILTERS, FEED_SORT_LABELS } from '../constants.ts';
+import type { QuestionFeed } from '../hooks/useQuestionFeed.ts';
+import { tabClassName } from '../lib/ui.ts';
+import type { FeedSort, FeedStatusFilter, QuestionDoc } from '../types.ts';
+
+export const QuestionFeedView: React.FC<{
+  feed: QuestionFeed;
+  categories: string[];
+  onAsk: () => void;
+  onOpenQuestion: (questionId: string) => void;
+  onOpenProfile: (uid: string) => void;
+}> = ({ feed, categories, onAsk, onOpenQuestion, onOpenProfile }) => {
+  const { followedTags } = useAuth();
+  const { filters, setFilters } = feed;
+  const card = (q: QuestionDoc) => (
+    <QuestionCard key={q.id} question={q} onOpenQuestion={onOpenQuestion} onOpenProfile={onOpenProfile} />
+  );
+  const cardGrid = (questions: QuestionDoc[], emptyMessage: string) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+      {questions.length === 0 ? (
+        <div className="md:col-span-3 text-center p-12 bg-gray-50 rounded-xl">
+          <p className="text-xl text-gray-500">{emptyMessage}</p>
+        </div>
+      ) : (
+        questions.map(card)
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6 max-w-6xl mx-auto">
+        <h2 className="text-3xl font-bold text-gray-800">Questions</h2>
+        <button
+          onClick={onAsk}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg transition duration-200 shadow-xl flex items-center"
+        >
+          <Edit size={18} className="mr-2" />
+          Ask a Question
+        </button>
+      </div>
+
+      <div className="flex space-x-2 mb-6 max-w-6xl mx-auto">
+        <button onClick={() => feed.setTab('questions')} className={tabClassName(feed.tab === 'questions')}>
+          All questions
+        </button>
+        <button
+          onClick={() => feed.setTab('bounties')}
+          className={`flex items-center ${tabClassName(feed.tab === 'bounties')}`}
+        >
+          <Gift size={16} className="mr-1" /> Bounties
+        </button>
+        <button
+          onClick={() => feed.setTab('following')}
+          className={`flex items-center ${tabClassName(feed.tab === 'following')}`}
+        >
+          <Hash size={16} className="mr-1" /> Following
+        </button>
+      </div>
+
+      {feed.tab === 'bounties' ? (
+        cardGrid(feed.bountyQuestions, 'No active bounties right now.')
+      ) : feed.tab === 'following' ? (
+        cardGrid(
+          feed.followingQuestions,
+          followedTags.length
+            ? 'No questions with the tags you follow yet.'
+            : 'Follow a tag from its page to see its questions here.',
+        )
+      ) : (
+        <>
+          <div className="flex items-center space-x-4 mb-6 max-w-6xl mx-auto text-sm text-gray-600">
+            <select
+              value={filters.category}
+              onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+              className="border border-gray-300 rounded-lg p-2 bg-white"
+            >
+              <option value="All">All categories</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as FeedStatusFilter })}
+              className="border border-gray-300 rounded-lg p-2 bg-white"
+            >
+              <option value="All">Any status</option>
+              <option value="Open">Open</option>
+              <option value="Closed">Closed</option>
+              <option value="Unanswered">Unanswered</option>
+            </select>
+            <select
+              value={filters.sort}
+              onChange={(e) => setFilters({ ...filters, sort: e.target.value as FeedSort })}
+              className="border border-gray-300 rounded-lg p-2 bg-white"
+            >
+              {(Object.keys(FEED_SORT_LABELS) as FeedSort[]).map((sort) => (
+                <option key={sort} value={sort}>
+                  {FEED_SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {cardGrid(
+            feed.questions,
+            filters === DEFAULT_FEED_FILTERS
+              ? 'No questions posted yet. Be the first!'
+              : 'No questions match these filters.',
+          )}
+
+          {feed.hasMore && (
+            <button
+              onClick={() => void feed.loadMore()}
+              disabled={feed.isLoadingMore}
+              className="block mx-auto mt-6 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-6 rounded-lg"
+            >
+              {feed.isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,723 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Plus, Settings, Upload, X } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { MAX_SUB_TOPICS } from '../constants.ts';
+import * as quizRepo from '../data/quizRepo.ts';
+import { formatDuration, formatTimestamp } from '../lib/format.ts';
+import {
+  DEFAULT_COOLDOWN_MINUTES,
+  DEFAULT_QUESTIONS_PER_ATTEMPT,
+  DEFAULT_VALIDITY_DAYS,
+  describeBankAnswer,
+  getBankQuestionError,
+  parseQuizBankExport,
+  QUESTION_TYPE_LABELS,
+} from '../lib/quizBanks.ts';
+import { parseTagList } from '../lib/tags.ts';
+import {
+  EXPERTISE_LEVELS,
+  type BankQuestion,
+  type ExpertiseLevel,
+  type QuizAttemptDoc,
+  type QuizBankDoc,
+  type QuizQuestionType,
+} from '../types.ts';
+
+// Flat editor state covering every question type; only the active type's fields are saved
+type QuestionDraft = {
+  id?: string;
+  type: QuizQuestionType;
+  question: string;
+  optionsText: string; // one option per line
+  answer: string; // single
+  multiAnswers: string[]; // multi
+  numericAnswer: string;
+  tolerance: string;
+  unit: string;
+  acceptedText: string; // text/code, one accepted variant per line
+  code: string;
+  language: string;
+  explanation: string;
+  tier: ExpertiseLevel;
+};
+
+const EMPTY_DRAFT: QuestionDraft = {
+  type: 'single',
+  question: '',
+  optionsText: '',
+  answer: '',
+  multiAnswers: [],
+  numericAnswer: '',
+  tolerance: '0',
+  unit: '',
+  acceptedText: '',
+  code: '',
+  language: '',
+  explanation: '',
+  tier: 'Verified',
+};
+
+const splitLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const draftFromQuestion = (q: BankQuestion): QuestionDraft => {
+  const draft: QuestionDraft = {
+    ...EMPTY_DRAFT,
+    id: q.id,
+    question: q.question,
+    explanation: q.explanation ?? '',
+    tier: q.tier ?? 'Verified',
+  };
+  switch (q.type) {
+    case undefined:
+    case 'single':
+      return { ...draft, type: 'single', optionsText: q.options.join('\n'), answer: q.answer };
+    case 'multi':
+      return { ...draft, type: 'multi', optionsText: q.options.join('\n'), multiAnswers: q.answers };
+    case 'numeric':
+      return {
+        ...draft,
+        type: 'numeric',
+        numericAnswer: String(q.numericAnswer),
+        tolerance: String(q.tolerance),
+        unit: q.unit ?? '',
+      };
+    case 'text':
+      return { ...draft, type: 'text', acceptedText: q.acceptedAnswers.join('\n') };
+    case 'code':
+      return {
+        ...draft,
+        type: 'code',
+        acceptedText: q.acceptedAnswers.join('\n---\n'),
+        code: q.code,
+        language: q.language ?? '',
+      };
+  }
+};
+
+const questionFromDraft = (draft: QuestionDraft): BankQuestion => {
+  const base = {
+    id: draft.id ?? '',
+    question: draft.question.trim(),
+    ...(draft.explanation.trim() ? { explanation: draft.explanation.trim() } : {}),
+    ...(draft.tier !== 'Verified' ? { tier: draft.tier } : {}),
+    retired: false,
+  };
+  const options = splitLines(draft.optionsText);
+  switch (draft.type) {
+    case 'single':
+      return { ...base, type: 'single', options, answer: draft.answer };
+    case 'multi':
+      return { ...base, type: 'multi', options, answers: draft.multiAnswers.filter((a) => options.includes(a)) };
+    case 'numeric':
+      return {
+        ...base,
+        type: 'numeric',
+        numericAnswer: draft.numericAnswer.trim() === '' ? NaN : Number(draft.numericAnswer),
+        tolerance: Number(draft.tolerance || 0),
+        unit: draft.unit.trim(),
+      };
+    case 'text':
+      return { ...base, type: 'text', acceptedAnswers: splitLines(draft.acceptedText) };
+    case 'code':
+      return {
+        ...base,
+        type: 'code',
+        code: draft.code,
+        language: draft.language.trim(),
+        // Code answers may span lines, so variants are separated by a line with "---"
+        acceptedAnswers: draft.acceptedText
+          .split(/\n---\n/)
+          .map((a) => a.trim())
+          .filter(Boolean),
+      };
+  }
+};
+
+// Requires the `admin` custom claim
+export const QuizBankAdminView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { db } = useAuth();
+  const [banks, setBanks] = useState<QuizBankDoc[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [bankAttempts, setBankAttempts] = useState<QuizAttemptDoc[]>([]);
+  const [newCategory, setNewCategory] = useState('');
+  const [draft, setDraft] = useState<QuestionDraft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(
+    () =>
+      quizRepo.subscribeAllBanks(db, setBanks, (err) => {
+        console.error('Error fetching quiz banks:', err);
+        setNotice('Failed to load quiz banks.');
+      }),
+    [db],
+  );
+
+  useEffect(() => {
+    if (!selectedCategory) {
+      setBankQuestions([]);
+      return;
+    }
+    return quizRepo.subscribeBankQuestions(db, selectedCategory, setBankQuestions, (err) => {
+      console.error('Error fetching bank questions:', err);
+      setNotice(`Failed to load questions for ${selectedCategory}. Is your account an admin?`);
+    });
+  }, [db, selectedCategory]);
+
+  // Recent attempts in the selected category, for reviewing suspicious timings
+  useEffect(() => {
+    if (!selectedCategory) {
+      setBankAttempts([]);
+      return;
+    }
+    return quizRepo.subscribeCategoryAttempts(db, selectedCategory, setBankAttempts, (err) => {
+      console.error('Error fetching quiz attempts:', err);
+    });
+  }, [db, selectedCategory]);
+
+  const draftOptions = splitLines(draft?.optionsText ?? '');
+
+  const handleCreateBank = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const category = newCategory.trim();
+    if (!category || category.includes('/')) return;
+    try {
+      await quizRepo.createBank(db, category);
+      setNewCategory('');
+      setSelectedCategory(category);
+    } catch (e) {
+      console.error('Error creating quiz bank:', e);
+      setNotice(`Could not create the ${category} bank.`);
+    }
+  };
+
+  const handleToggleBank = async (bank: QuizBankDoc) => {
+    try {
+      await quizRepo.setBankActive(db, bank.id, !bank.active);
+    } catch (e) {
+      console.error('Error updating quiz bank:', e);
+      setNotice(`Could not update the ${bank.category} bank.`);
+    }
+  };
+
+  const handleBankSetting = async (key: quizRepo.BankSettingKey, value: number) => {
+    const min = key === 'questionsPerAttempt' || key === 'validityDays' ? 1 : 0;
+    if (!selectedCategory || !Number.isInteger(value) || value < min) return;
+    try {
+      await quizRepo.updateBankSetting(db, selectedCategory, key, value);
+    } catch (e) {
+      console.error('Error updating quiz bank settings:', e);
+      setNotice(`Could not update the ${selectedCategory} settings.`);
+    }
+  };
+
+  const handleSubTopics = async (text: string) => {
+    if (!selectedCategory) return;
+    const subTopics = parseTagList(text);
+    if (subTopics.length > MAX_SUB_TOPICS) {
+      setNotice(`A category can have at most ${MAX_SUB_TOPICS} sub-topics.`);
+      return;
+    }
+    try {
+      await quizRepo.setBankSubTopics(db, selectedCategory, subTopics);
+    } catch (e) {
+      console.error('Error updating sub-topics:', e);
+      setNotice(`Could not update the ${selectedCategory} sub-topics.`);
+    }
+  };
+
+  const selectedBank = banks.find((b) => b.id === selectedCategory);
+
+  const handleSaveQuestion = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!draft || !selectedCategory) return;
+    const question = questionFromDraft(draft);
+    const problem = getBankQuestionError(question);
+    if (problem) {
+      setNotice(`This question ${problem}.`);
+      return;
+    }
+    // Saving an edit never un-retires a question
+    const existing = bankQuestions.find((q) => q.id === draft.id);
+    try {
+      await quizRepo.saveBankQuestion(db, selectedCategory, question, existing?.retired ?? false);
+      setDraft(null);
+      setNotice(null);
+    } catch (e) {
+      console.error('Error saving bank question:', e);
+      setNotice('Could not save the question.');
+    }
+  };
+
+  const handleToggleRetired = async (question: BankQuestion) => {
+    if (!selectedCategory) return;
+    try {
+      await quizRepo.setQuestionRetired(db, selectedCategory, question.id, !question.retired);
+    } catch (e) {
+      console.error('Error retiring bank question:', e);
+      setNotice('Could not update the question.');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const exported = await quizRepo.exportBanks(db, banks);
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `quiz-banks-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error('Error exporting quiz banks:', e);
+      setNotice('Could not export quiz banks.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseQuizBankExport(JSON.parse(await file.text()));
+      const written = await quizRepo.importBanks(db, parsed);
+      setNotice(`Imported ${written} questions across ${parsed.banks.length} banks.`);
+    } catch (e) {
+      console.error('Error importing quiz banks:', e);
+      setNotice(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto bg-white rounded-xl shadow-2xl border border-purple-200">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-gray-800 flex items-center">
+          <Settings size={24} className="mr-2 text-purple-600" />
+          Quiz Bank Admin
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => void handleExport()}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg text-sm flex items-center"
+          >
+            <Download size={16} className="mr-1" /> Export JSON
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg text-sm flex items-center"
+          >
+            <Upload size={16} className="mr-1" /> Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => void handleImport(e)}
+          />
+        </div>
+      </div>
+
+      {notice && (
+        <div className="mb-4 p-3 rounded-lg bg-yellow-100 text-sm text-gray-700 flex justify-between items-center">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-gray-500 hover:text-gray-800">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-gray-700">Categories</h3>
+          {banks.map((bank) => (
+            <div
+              key={bank.id}
+              className={`p-3 rounded-lg border flex justify-between items-center cursor-pointer ${
+                selectedCategory === bank.id ? 'bg-indigo-100 border-indigo-500' : 'bg-gray-50 border-gray-200'
+              }`}
+              onClick={() => {
+                setSelectedCategory(bank.id);
+                setDraft(null);
+              }}
+            >
+              <span className={`font-medium ${bank.active ? 'text-gray-800' : 'text-gray-500'}`}>
+                {bank.category}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void handleToggleBank(bank);
+                }}
+                className="text-xs text-indigo-600 hover:text-indigo-800"
+              >
+                {bank.active ? 'Deactivate' : 'Activate'}
+              </button>
+            </div>
+          ))}
+          <form onSubmit={handleCreateBank} className="space-y-2">
+            <input
+              type="text"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              placeholder="New category name"
+              className="block w-full border border-gray-300 rounded-lg p-2"
+            />
+            <button
+              type="submit"
+              disabled={!newCategory.trim() || newCategory.includes('/')}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center"
+            >
+              <Plus size={16} className="mr-1" /> Add Category
+            </button>
+          </form>
+        </div>
+
+        <div className="md:col-span-2 space-y-3">
+          {!selectedCategory ? (
+            <p className="text-gray-500">Select a category to manage its question pool.</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-gray-700">
+                  {selectedCategory}: {bankQuestions.filter((q) => !q.retired).length} active /{' '}
+                  {bankQuestions.length} total
+                  <span className="block text-xs font-normal text-gray-500">
+                    {EXPERTISE_LEVELS.map(
+                      (level) =>
+                        `${level}: ${bankQuestions.filter((q) => !q.retired && (q.tier ?? 'Verified') === level).length}`,
+                    ).join(' · ')}
+                  </span>
+                </h3>
+                <button
+                  onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                  className="bg-green-500 hover:bg-green-600 text-white text-sm font-semibold py-1.5 px-3 rounded-lg flex items-center"
+                >
+                  <Plus size={16} className="mr-1" /> New Question
+                </button>
+              </div>
+
+              <div className="flex items-center space-x-4 text-sm text-gray-600">
+                <label className="flex items-center space-x-2">
+                  <span>Questions per attempt</span>
+                  <input
+                    type="number"
+                    min={1}
+                    key={`per-${selectedCategory}-${selectedBank?.questionsPerAttempt}`}
+                    defaultValue={selectedBank?.questionsPerAttempt ?? DEFAULT_QUESTIONS_PER_ATTEMPT}
+                    onBlur={(e) => void handleBankSetting('questionsPerAttempt', Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded-lg p-1"
+                  />
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span>Cooldown (minutes)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    key={`cool-${selectedCategory}-${selectedBank?.cooldownMinutes}`}
+                    defaultValue={selectedBank?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES}
+                    onBlur={(e) => void handleBankSetting('cooldownMinutes', Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded-lg p-1"
+                  />
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span>Valid for (days)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    key={`valid-${selectedCategory}-${selectedBank?.validityDays}`}
+                    defaultValue={selectedBank?.validityDays ?? DEFAULT_VALIDITY_DAYS}
+                    onBlur={(e) => void handleBankSetting('validityDays', Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded-lg p-1"
+                  />
+                </label>
+              </div>
+              <div className="flex items-center space-x-4 text-sm text-gray-600">
+                <label className="flex items-center space-x-2">
+                  <span>Seconds per question (0 = untimed)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    key={`perq-${selectedCategory}-${selectedBank?.perQuestionSeconds}`}
+                    defaultValue={selectedBank?.perQuestionSeconds ?? 0}
+                    onBlur={(e) => void handleBankSetting('perQuestionSeconds', Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded-lg p-1"
+                  />
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span>Total seconds (0 = untimed)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    key={`total-${selectedCategory}-${selectedBank?.totalSeconds}`}
+                    defaultValue={selectedBank?.totalSeconds ?? 0}
+                    onBlur={(e) => void handleBankSetting('totalSeconds', Number(e.target.value))}
+                    className="w-20 border border-gray-300 rounded-lg p-1"
+                  />
+                </label>
+              </div>
+              <label className="block text-sm text-gray-600">
+                <span>Sub-topics (comma separated; questions may only use these tags, empty = any tag)</span>
+                <input
+                  type="text"
+                  key={`sub-${selectedCategory}-${selectedBank?.subTopics?.join(',')}`}
+                  defaultValue={selectedBank?.subTopics?.join(', ') ?? ''}
+                  onBlur={(e) => void handleSubTopics(e.target.value)}
+                  placeholder="e.g. react, css, accessibility"
+                  className="mt-1 block w-full border border-gray-300 rounded-lg p-2"
+                />
+              </label>
+
+              {draft && (
+                <form onSubmit={handleSaveQuestion} className="p-4 bg-indigo-50 rounded-lg space-y-3">
+                  <select
+                    value={draft.type}
+                    onChange={(e) => setDraft({ ...draft, type: e.target.value as QuizQuestionType })}
+                    className="block w-full border border-gray-300 rounded-lg p-2 bg-white"
+                  >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map((t) => (
+                      <option key={t} value={t}>
+                        {QUESTION_TYPE_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={draft.tier}
+                    onChange={(e) => setDraft({ ...draft, tier: e.target.value as ExpertiseLevel })}
+                    className="block w-full border border-gray-300 rounded-lg p-2 bg-white"
+                  >
+                    {EXPERTISE_LEVELS.map((level) => (
+                      <option key={level} value={level}>
+                        {level} quiz
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={draft.question}
+                    onChange={(e) => setDraft({ ...draft, question: e.target.value })}
+                    placeholder="Question text"
+                    className="block w-full border border-gray-300 rounded-lg p-2"
+                    required
+                  />
+                  {(draft.type === 'single' || draft.type === 'multi') && (
+                    <textarea
+                      value={draft.optionsText}
+                      onChange={(e) => setDraft({ ...draft, optionsText: e.target.value })}
+                      rows={4}
+                      placeholder="One option per line"
+                      className="block w-full border border-gray-300 rounded-lg p-2"
+                      required
+                    />
+                  )}
+                  {draft.type === 'single' && (
+                    <select
+                      value={draft.answer}
+                      onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+                      className="block w-full border border-gray-300 rounded-lg p-2 bg-white"
+                      required
+                    >
+                      <option value="">Correct answer...</option>
+                      {draftOptions.map((o) => (
+                        <option key={o} value={o}>
+                          {o}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {draft.type === 'multi' && (
+                    <div className="space-y-1 text-sm text-gray-700">
+                      <p className="text-gray-500">Correct options:</p>
+                      {draftOptions.map((o) => (
+                        <label key={o} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={draft.multiAnswers.includes(o)}
+                            onChange={(e) =>
+                              setDraft({
+                                ...draft,
+                                multiAnswers: e.target.checked
+                                  ? [...draft.multiAnswers, o]
+                                  : draft.multiAnswers.filter((a) => a !== o),
+                              })
+                            }
+                          />
+                          <span>{o}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  {draft.type === 'numeric' && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="number"
+                        step="any"
+                        value={draft.numericAnswer}
+                        onChange={(e) => setDraft({ ...draft, numericAnswer: e.target.value })}
+                        placeholder="Answer"
+                        className="border border-gray-300 rounded-lg p-2"
+                        required
+                      />
+                      <input
+                        type="number"
+                        step="any"
+                        min={0}
+                        value={draft.tolerance}
+                        onChange={(e) => setDraft({ ...draft, tolerance: e.target.value })}
+                        placeholder="± tolerance"
+                        className="border border-gray-300 rounded-lg p-2"
+                      />
+                      <input
+                        type="text"
+                        value={draft.unit}
+                        onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                        placeholder="Unit (optional)"
+                        className="border border-gray-300 rounded-lg p-2"
+                      />
+                    </div>
+                  )}
+                  {draft.type === 'code' && (
+                    <>
+                      <textarea
+                        value={draft.code}
+                        onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                        rows={6}
+                        placeholder="Code snippet shown to the candidate"
+                        className="block w-full border border-gray-300 rounded-lg p-2 font-mono"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={draft.language}
+                        onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+                        placeholder="Language (e.g. javascript)"
+                        className="block w-full border border-gray-300 rounded-lg p-2"
+                      />
+                    </>
+                  )}
+                  {(draft.type === 'text' || draft.type === 'code') && (
+                    <textarea
+                      value={draft.acceptedText}
+                      onChange={(e) => setDraft({ ...draft, acceptedText: e.target.value })}
+                      rows={3}
+                      placeholder={
+                        draft.type === 'code'
+                          ? 'Accepted answers, separated by a line containing only ---'
+                          : 'Accepted answers, one per line (case-insensitive)'
+                      }
+                      className={`block w-full border border-gray-300 rounded-lg p-2 ${
+                        draft.type === 'code' ? 'font-mono' : ''
+                      }`}
+                      required
+                    />
+                  )}
+                  <textarea
+                    value={draft.explanation}
+                    onChange={(e) => setDraft({ ...draft, explanation: e.target.value })}
+                    rows={2}
+                    placeholder="Explanation shown after the quiz (optional)"
+                    className="block w-full border border-gray-300 rounded-lg p-2"
+                  />
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="submit"
+                      className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg"
+                    >
+                      {draft.id ? 'Save Changes' : 'Add Question'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft(null)}
+                      className="text-gray-600 hover:text-gray-800 py-2 px-4"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {bankQuestions.map((q) => (
+                <div
+                  key={q.id}
+                  className={`p-4 border rounded-lg ${q.retired ? 'bg-gray-50 opacity-50' : 'bg-white'}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-semibold text-gray-800">
+                        {q.question}{' '}
+                        <span className="text-xs text-indigo-600">
+                          {QUESTION_TYPE_LABELS[q.type ?? 'single']} &middot; {q.tier ?? 'Verified'}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500">{describeBankAnswer(q)}</p>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <button
+                        onClick={() => setDraft(draftFromQuestion(q))}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => void handleToggleRetired(q)}
+                        className="text-gray-600 hover:text-red-500"
+                      >
+                        {q.retired ? 'Restore' : 'Retire'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {bankAttempts.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold text-gray-700 mb-2">Recent Attempts</h3>
+                  <table className="w-full text-sm text-gray-600">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th>User</th>
+                        <th>Started</th>
+                        <th>Level</th>
+                        <th>Result</th>
+                        <th>Elapsed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {bankAttempts.map((a) => (
+                        <tr key={a.id}>
+                          <td className="font-mono text-xs">{a.uid.substring(0, 8)}</td>
+                          <td>{formatTimestamp(a.startedAt)}</td>
+                          <td>{a.level ?? 'Verified'}</td>
+                          <td>
+                            {a.status}
+                            {a.score != null && ` (${a.score}/${a.total})`}
+                            {a.timedOut && ', timed out'}
+                          </td>
+                          <td>{a.elapsedMs != null ? formatDuration(a.elapsedMs) : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={onBack}
+        className="mt-8 text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium"
+      >
+        &larr; Back to Question Feed
+      </button>
+    </div>
+  );
+};
+
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { ExpertBadge } from '../components/badges.tsx';
+import { formatDuration } from '../lib/format.ts';
+import { PASSING_SCORE_PERCENTAGE } from '../lib/quizBanks.ts';
+import type { ActiveVerification, GradeQuizResponse, QuizAnswer } from '../types.ts';
+
+const formatQuizAnswer = (answer: QuizAnswer) =>
+  answer === null || (Array.isArray(answer) && !answer.length) || answer === ''
+    ? '(no answer)'
+    : Array.isArray(answer)
+      ? answer.join(', ')
+      : String(answer);
+
+export const QuizResultsView: React.FC<{
+  category: string;
+  result: GradeQuizResponse;
+  verifications: ActiveVerification[];
+  onBackToFeed: () => void;
+  onBackToQuizzes: () => void;
+}> = ({ category, result, verifications, onBackToFeed, onBackToQuizzes }) => {
+  const percentage = result.total ? Math.round((result.score / result.total) * 100) : 0;
+  // The verification snapshot can lag the function response; show the new badge now
+  const badgeVerifications =
+    result.passed && result.expiresAtMs
+      ? [
+          ...verifications.filter((v) => v.category !== category),
+          { category, level: result.level, expiresAt: result.expiresAtMs },
+        ]
+      : verifications;
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto bg-white rounded-xl shadow-2xl border border-purple-200">
+      <h2 className="text-3xl font-bold text-gray-800 mb-2">{category} Quiz Results</h2>
+      <div
+        className={`p-6 rounded-lg mb-6 ${result.passed ? 'bg-green-100' : 'bg-red-100'}`}
+      >
+        <p className={`text-xl font-bold ${result.passed ? 'text-green-700' : 'text-red-700'}`}>
+          {result.passed ? `Passed! You are now ${result.level} in ${category}.` : 'Not passed this time.'}
+        </p>
+        {result.passed && result.expiresAtMs && (
+          <p className="text-sm text-gray-700 mt-1">
+            Your verification is valid until {new Date(result.expiresAtMs).toLocaleDateString()}.
+          </p>
+        )}
+        {result.passed && !result.expiresAtMs && (
+          <p className="text-sm text-gray-700 mt-1">
+            You already hold a higher level in {category}, so your verification was left unchanged.
+          </p>
+        )}
+        <p className="text-gray-700 mt-1">
+          You scored <span className="font-semibold">{result.score} / {result.total}</span> ({percentage}%).
+          Passing requires {PASSING_SCORE_PERCENTAGE * 100}%. Time taken: {formatDuration(result.elapsedMs)}.
+        </p>
+        {result.timedOut && (
+          <p className="text-sm text-red-700 mt-1">
+            The attempt was submitted after the time limit, so it could not pass.
+          </p>
+        )}
+        {result.passed && (
+          <div className="mt-4 flex">
+            <ExpertBadge verifications={badgeVerifications} />
+          </div>
+        )}
+      </div>
+
+      <h3 className="text-xl font-bold text-gray-800 mb-4">Review</h3>
+      <div className="space-y-4">
+        {result.review.map((item, index) => (
+          <div
+            key={item.id}
+            className={`p-4 border rounded-lg ${item.correct ? 'border-green-500' : 'border-red-500'}`}
+          >
+            <p className="font-semibold text-gray-800 mb-2 flex items-center">
+              {item.correct ? (
+                <Check size={18} className="mr-2 text-green-600" />
+              ) : (
+                <X size={18} className="mr-2 text-red-600" />
+              )}
+              {index + 1}. {item.question}
+            </p>
+            <p className="text-sm text-gray-700">
+              Your answer: <span className="font-mono">{formatQuizAnswer(item.yourAnswer)}</span>
+            </p>
+            {!item.correct && (
+              <p className="text-sm text-gray-700">
+                Correct answer: <span className="font-mono">{item.correctAnswer}</span>
+              </p>
+            )}
+            {item.explanation && (
+              <p className="text-sm text-gray-600 mt-2 p-3 bg-gray-50 rounded-lg">{item.explanation}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mt-8">
+        <button
+          onClick={onBackToQuizzes}
+          className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium"
+        >
+          &larr; Back to Quizzes
+        </button>
+        <button
+          onClick={onBackToFeed}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg"
+        >
+          Go to Question Feed
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,432 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Award, Zap } from 'lucide-react';
+import type { FunctionsError } from 'firebase/functions';
+import { useAuth } from '../auth/AuthContext.ts';
+import { Countdown } from '../components/badges.tsx';
+import { QuizAnswerInput } from '../components/QuizAnswerInput.tsx';
+import * as quizRepo from '../data/quizRepo.ts';
+import { formatDuration, formatTimestamp } from '../lib/format.ts';
+import {
+  DEFAULT_QUESTIONS_PER_ATTEMPT,
+  getQuizRetryAt,
+  isAnswered,
+  PASSING_SCORE_PERCENTAGE,
+} from '../lib/quizBanks.ts';
+import { clearQuizSession, loadQuizSession, saveQuizSession, type QuizSession } from '../lib/quizSession.ts';
+import { getActiveVerification, isVerificationExpired, nextLevel } from '../lib/verifications.ts';
+import {
+  EXPERTISE_LEVELS,
+  type ExpertiseLevel,
+  type GradeQuizResponse,
+  type QuizAnswer,
+  type QuizAttemptDoc,
+  type QuizBankDoc,
+  type QuizSubmission,
+} from '../types.ts';
+import { QuizResultsView } from './QuizResultsView.tsx';
+
+// Runs the timers and records how long each question took; grading is
+// server-side. Progress is saved after every question. If grading fails the
+// answers are kept so the same submission can be sent again.
+const ActiveQuiz: React.FC<{
+  session: QuizSession;
+  onSubmit: (submission: QuizSubmission) => Promise<string | null>; // error message, or null once the session is over
+  onCancel: () => void;
+}> = ({ session, onSubmit, onCancel }) => {
+  const { category, questions: quizData, timeLimits, deadline } = session;
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(session.index);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>(session.answers);
+  const [currentAnswer, setCurrentAnswer] = useState<QuizAnswer>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submission, setSubmission] = useState<QuizSubmission | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const questionStartedAtRef = useRef(session.questionStartedAt);
+  const questionTimesRef = useRef<Record<string, number>>({ ...session.questionTimesMs });
+
+  const currentQuestion = quizData[currentQuestionIndex];
+  const totalQuestions = quizData.length;
+  const isLastQuestion = currentQuestionIndex === totalQuestions - 1;
+  const perQuestionMs = timeLimits.perQuestionSeconds ? timeLimits.perQuestionSeconds * 1000 : null;
+
+  const hasAnswer = isAnswered(currentAnswer);
+
+  const submit = async (next: QuizSubmission) => {
+    setSubmission(next);
+    setSubmitError(null);
+    setIsSubmitting(true);
+    const error = await onSubmit(next);
+    // On success the session ends and this component unmounts
+    if (error) {
+      setSubmitError(error);
+      setIsSubmitting(false);
+    }
+  };
+
+  // Records the current question (answered or not) and moves on, or submits
+  // everything when this was the last question or the overall clock ran out.
+  const advance = (answer: QuizAnswer, submitNow = false) => {
+    if (isSubmitting || submission) return;
+    const nextAnswers = { ...answers, [currentQuestion.id]: answer };
+    questionTimesRef.current[currentQuestion.id] = Date.now() - questionStartedAtRef.current;
+
+    if (isLastQuestion || submitNow) {
+      void submit({ answers: nextAnswers, questionTimesMs: questionTimesRef.current });
+    } else {
+      setAnswers(nextAnswers);
+      setCurrentQuestionIndex(currentQuestionIndex + 1);
+      setCurrentAnswer(null);
+      questionStartedAtRef.current = Date.now();
+      saveQuizSession({
+        ...session,
+        index: currentQuestionIndex + 1,
+        answers: nextAnswers,
+        questionTimesMs: questionTimesRef.current,
+        questionStartedAt: questionStartedAtRef.current,
+      });
+    }
+  };
+
+  const handleNext = () => {
+    if (submission) {
+      void submit(submission);
+    } else if (hasAnswer) {
+      advance(currentAnswer);
+    }
+  };
+  const canContinue = !isSubmitting && (hasAnswer || !!submission);
+
+  // Keep the interval below pointed at the latest closure
+  const onTickRef = useRef<(t: number) => void>(() => {});
+  useEffect(() => {
+    onTickRef.current = (t: number) => {
+      if (deadline && t >= deadline) {
+        advance(currentAnswer, true);
+      } else if (perQuestionMs && t >= questionStartedAtRef.current + perQuestionMs) {
+        advance(currentAnswer);
+      }
+    };
+  });
+
+  useEffect(() => {
+    if (!deadline && !perQuestionMs) return;
+    const id = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      onTickRef.current(t);
+    }, 250);
+    return () => window.clearInterval(id);
+  }, [deadline, perQuestionMs]);
+
+  const totalRemainingMs = deadline ? deadline - now : null;
+  const questionRemainingMs = perQuestionMs
+    ? questionStartedAtRef.current + perQuestionMs - now
+    : null;
+
+  return (
+    <div className="p-8 bg-white rounded-xl shadow-2xl border border-purple-200">
+      <h2 className="text-3xl font-bold text-gray-800 mb-2">{category} Expert Quiz</h2>
+      <div className="flex justify-between items-center mb-6">
+        <p className="text-sm text-gray-500">
+          Question {currentQuestionIndex + 1} of {totalQuestions}
+        </p>
+        <div className="flex items-center space-x-4 text-sm font-semibold">
+          {questionRemainingMs !== null && (
+            <Countdown label="This question" remainingMs={questionRemainingMs} />
+          )}
+          {totalRemainingMs !== null && <Countdown label="Total" remainingMs={totalRemainingMs} />}
+        </div>
+      </div>
+
+      <div className="bg-indigo-50 p-6 rounded-lg mb-6">
+        <p className="text-xl font-semibold text-gray-800">
+          {currentQuestion.question}
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <QuizAnswerInput
+          key={currentQuestion.id}
+          question={currentQuestion}
+          value={currentAnswer}
+          onChange={setCurrentAnswer}
+          disabled={isSubmitting || !!submission}
+        />
+      </div>
+
+      {submitError && <div className="mb-4 p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{submitError}</div>}
+
+      <button
+        onClick={handleNext}
+        disabled={!canContinue}
+        className={`w-full font-bold py-3 px-4 rounded-lg transition duration-200 shadow-md flex items-center justify-center ${
+          canContinue
+            ? 'bg-purple-600 hover:bg-purple-700 text-white'
+            : 'bg-gray-300 text-gray-600 cursor-not-allowed'
+        }`}
+      >
+        {isSubmitting
+          ? 'Grading...'
+          : submission
+            ? 'Retry Submission'
+            : isLastQuestion
+              ? 'Submit Quiz'
+              : 'Next Question'}
+      </button>
+      <button
+        onClick={onCancel}
+        disabled={isSubmitting}
+        className="mt-4 text-sm text-gray-500 hover:text-red-500 transition duration-150 w-full"
+      >
+        Cancel Quiz (counts as a failed attempt)
+      </button>
+    </div>
+  );
+};
+
+// The quiz picker, or with a category the attempt in progress for it. Starting
+// a quiz moves to the category's route.
+export const QuizView: React.FC<{
+  banks: QuizBankDoc[];
+  category?: string;
+  onError: (message: string) => void;
+  onOpenCategory: (category?: string) => void;
+  onExit: () => void;
+}> = ({ banks, category: routeCategory, onError, onOpenCategory, onExit }) => {
+  const { db, functions, userId, verification, activeVerifications } = useAuth();
+  const [session, setSession] = useState(() =>
+    routeCategory && userId ? loadQuizSession(userId, routeCategory) : null,
+  );
+  const [startingCategory, setStartingCategory] = useState<string | null>(null);
+  const [quizNotice, setQuizNotice] = useState<string | null>(null);
+  const [quizResult, setQuizResult] = useState<{ category: string; result: GradeQuizResponse } | null>(null);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttemptDoc[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    return quizRepo.subscribeAttempts(db, userId, setQuizAttempts, (err) => {
+      console.error('Error fetching quiz attempts:', err);
+    });
+  }, [db, userId]);
+
+  const endSession = () => {
+    clearQuizSession();
+    setSession(null);
+  };
+
+  const handleStartQuiz = async (category: string, level: ExpertiseLevel) => {
+    if (!userId) return;
+    setQuizNotice(null);
+    setStartingCategory(category);
+    try {
+      const { attemptId, questions, timeLimits } = await quizRepo.startQuiz(functions, { category, level });
+      const startedAt = Date.now();
+      const started: QuizSession = {
+        uid: userId,
+        category,
+        attemptId,
+        questions,
+        timeLimits,
+        deadline: timeLimits.totalSeconds ? startedAt + timeLimits.totalSeconds * 1000 : null,
+        index: 0,
+        answers: {},
+        questionTimesMs: {},
+        questionStartedAt: startedAt,
+      };
+      saveQuizSession(started);
+      setSession(started);
+      setStartingCategory(null);
+      if (category !== routeCategory) onOpenCategory(category);
+    } catch (e) {
+      setStartingCategory(null);
+      const err = e as FunctionsError;
+      if (err.code === 'functions/failed-precondition') {
+        // Cooldown or empty bank: recoverable, so keep the user on the quiz screen
+        const retryAt = (err.details as { retryAt?: number } | undefined)?.retryAt;
+        setQuizNotice(
+          retryAt
+            ? `You can retake the ${category} ${level} quiz at ${new Date(retryAt).toLocaleString()}.`
+            : err.message,
+        );
+        return;
+      }
+      console.error('Error starting quiz:', e);
+      onError(`Failed to load the ${category} quiz.`);
+    }
+  };
+
+  // The verification listener in AuthProvider picks up a newly passed category.
+  // The attempt stays open on the server until it's graded, so a failed
+  // submission keeps the session for a retry. An attempt the server won't
+  // take any more (already submitted) ends it.
+  const handleQuizComplete = async (active: QuizSession, submission: QuizSubmission) => {
+    try {
+      const result = await quizRepo.gradeQuiz(functions, { attemptId: active.attemptId, ...submission });
+      setQuizResult({ category: active.category, result });
+      endSession();
+      return null;
+    } catch (e) {
+      const err = e as FunctionsError;
+      if (err.code === 'functions/failed-precondition' || err.code === 'functions/not-found') {
+        endSession();
+        setQuizNotice(err.message);
+        return null;
+      }
+      console.error('Error grading quiz:', e);
+      return `Failed to grade the ${active.category} quiz. Check your connection and retry the submission.`;
+    }
+  };
+
+  if (startingCategory) {
+    return (
+      <div className="p-8 text-center text-lg font-medium text-indigo-600 animate-pulse">
+        Loading {startingCategory} quiz...
+      </div>
+    );
+  }
+
+  if (session) {
+    return (
+      <ActiveQuiz
+        session={session}
+        // Stays on the quiz screen ("Grading...") until the results arrive
+        onSubmit={(submission) => handleQuizComplete(session, submission)}
+        onCancel={() => {
+          endSession();
+          onExit();
+        }}
+      />
+    );
+  }
+
+  if (quizResult) {
+    return (
+      <QuizResultsView
+        category={quizResult.category}
+        result={quizResult.result}
+        verifications={activeVerifications}
+        onBackToFeed={onExit}
+        onBackToQuizzes={() => onOpenCategory()}
+      />
+    );
+  }
+
+  const categories = banks.map((b) => b.category).filter((c) => !routeCategory || c === routeCategory);
+
+  return (
+    <div className="p-8 max-w-2xl mx-auto bg-white rounded-xl shadow-2xl border border-purple-200">
+      <h2 className="text-3xl font-bold text-gray-800 mb-4 flex items-center">
+        <Zap size={24} className="mr-2 text-purple-600" />
+        Expert Verification Quiz
+      </h2>
+      <p className="text-gray-600 mb-6">
+        To become a verified expert, select a category and pass the quiz with a
+        score of <span className="font-semibold">{PASSING_SCORE_PERCENTAGE * 100}%</span> or higher.
+        Once verified you can attempt the harder {EXPERTISE_LEVELS.slice(1).join(' and ')} quizzes.
+        Verifications expire, so retake the quiz to stay current.
+      </p>
+      {quizNotice && (
+        <div className="mb-4 p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{quizNotice}</div>
+      )}
+      <div className="space-y-4">
+        {categories.length === 0 && (
+          <p className="text-center p-6 bg-gray-50 rounded-lg text-gray-500">
+            {routeCategory
+              ? `There is no ${routeCategory} verification quiz.`
+              : 'No verification quizzes are available yet.'}
+          </p>
+        )}
+        {categories.map((category) => {
+          const bank = banks.find((b) => b.category === category);
+          const active = getActiveVerification(verification, category);
+          const expired = isVerificationExpired(verification, category);
+          // Climb to the next tier, or renew once at the top
+          const next = active ? nextLevel(active.level) : null;
+          const level = active ? next ?? active.level : EXPERTISE_LEVELS[0];
+          const retryAt = getQuizRetryAt(bank, level, quizAttempts);
+          return (
+            <div
+              key={category}
+              className="p-4 bg-gray-50 rounded-lg border border-gray-200 flex justify-between items-center"
+            >
+              <div>
+                <span className="font-semibold text-lg text-gray-700">{category}</span>
+                <p className="text-xs text-gray-500">
+                  {bank?.questionsPerAttempt ?? DEFAULT_QUESTIONS_PER_ATTEMPT} random questions
+                  {bank?.perQuestionSeconds ? ` · ${bank.perQuestionSeconds}s per question` : ''}
+                  {bank?.totalSeconds ? ` · ${formatDuration(bank.totalSeconds * 1000)} total` : ''}
+                </p>
+                {active && (
+                  <p className="text-sm text-green-600 font-bold flex items-center mt-1">
+                    <Award size={16} className="mr-1" /> {active.level.toUpperCase()}
+                    {Number.isFinite(active.expiresAt) && (
+                      <span className="ml-2 text-xs font-medium text-gray-500">
+                        until {new Date(active.expiresAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </p>
+                )}
+                {expired && (
+                  <p className="text-sm text-red-600 font-medium mt-1">Verification expired</p>
+                )}
+              </div>
+              {retryAt ? (
+                <span className="text-sm text-yellow-600 font-medium">
+                  Retake after {new Date(retryAt).toLocaleTimeString()}
+                </span>
+              ) : (
+                <button
+                  className="bg-indigo-500 hover:bg-indigo-600 text-white py-1 px-3 rounded-md text-sm transition duration-150"
+                  onClick={() => void handleStartQuiz(category, level)}
+                >
+                  {!active ? (expired ? 'Re-verify' : 'Start Quiz') : next ? `Attempt ${next}` : 'Renew'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {quizAttempts.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-lg font-semibold text-gray-700 mb-3">Your Recent Attempts</h3>
+          <div className="space-y-2">
+            {quizAttempts.map((attempt) => (
+              <div key={attempt.id} className="flex justify-between items-center text-sm text-gray-600">
+                <span>
+                  {attempt.category} {attempt.level ?? 'Verified'} &middot; {formatTimestamp(attempt.startedAt)}
+                  {attempt.elapsedMs != null && <> &middot; {formatDuration(attempt.elapsedMs)}</>}
+                  {attempt.timedOut && <> &middot; timed out</>}
+                </span>
+                <span
+                  className={`font-semibold ${
+                    attempt.status === 'passed' ? 'text-green-600' : 'text-gray-500'
+                  }`}
+                >
+                  {attempt.status === 'in_progress'
+                    ? 'In progress'
+                    : attempt.score != null
+                      ? `${attempt.status} (${attempt.score}/${attempt.total})`
+                      : attempt.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {routeCategory && (
+        <button
+          onClick={() => onOpenCategory()}
+          className="mt-8 mr-6 text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium"
+        >
+          &larr; All quizzes
+        </button>
+      )}
+      <button
+        onClick={onExit}
+        className="mt-8 text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium"
+      >
+        &larr; Back to Question Feed
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { QuestionCard } from '../components/QuestionCard.tsx';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import type { QuestionDoc } from '../types.ts';
+
+export const SearchResultsView: React.FC<{
+  query: string;
+  onError: (message: string) => void;
+  onOpenQuestion: (questionId: string) => void;
+  onOpenProfile: (uid: string) => void;
+}> = ({ query, onError, onOpenQuestion, onOpenProfile }) => {
+  const { db } = useAuth();
+  const [results, setResults] = useState<QuestionDoc[] | null>(null); // null while searching
+
+  useEffect(() => {
+    let cancelled = false;
+    setResults(null);
+    questionsRepo
+      .searchQuestions(db, query)
+      .then((found) => {
+        if (!cancelled) setResults(found);
+      })
+      .catch((e) => {
+        console.error('Error searching questions:', e);
+        onError('Search failed. Check your connection and try again.');
+        if (!cancelled) setResults([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [db, query, onError]);
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6 max-w-6xl mx-auto">
+        {results === null
+          ? `Searching for "${query}"...`
+          : `${results.length} ${results.length === 1 ? 'result' : 'results'} for "${query}"`}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+        {results?.length === 0 ? (
+          <div className="md:col-span-3 text-center p-12 bg-gray-50 rounded-xl">
+            <p className="text-xl text-gray-500">No matching questions. Try other words, or ask it!</p>
+          </div>
+        ) : (
+          results?.map((q) => (
+            <QuestionCard key={q.id} question={q} onOpenQuestion={onOpenQuestion} onOpenProfile={onOpenProfile} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
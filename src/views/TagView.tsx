@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { useAuth } from '../auth/AuthContext.ts';
+import { QuestionCard } from '../components/QuestionCard.tsx';
+import { MAX_FOLLOWED_TAGS } from '../constants.ts';
+import * as questionsRepo from '../data/questionsRepo.ts';
+import * as tagsRepo from '../data/tagsRepo.ts';
+import type { QuestionDoc, TagDoc } from '../types.ts';
+
+// A tag's page: its newest questions and a follow toggle
+export const TagView: React.FC<{
+  tag: string;
+  onOpenQuestion: (questionId: string) => void;
+  onOpenProfile: (uid: string) => void;
+  onBack: () => void;
+}> = ({ tag, onOpenQuestion, onOpenProfile, onBack }) => {
+  const { db, userId, followedTags } = useAuth();
+  const [tagDoc, setTagDoc] = useState<TagDoc | null>(null);
+  const [questions, setQuestions] = useState<QuestionDoc[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const isFollowing = followedTags.includes(tag);
+
+  useEffect(() => {
+    const unsubTag = tagsRepo.subscribeTag(db, tag, setTagDoc, (err) => {
+      console.error('Error fetching tag:', err);
+    });
+    const unsubQuestions = questionsRepo.subscribeTaggedQuestions(
+      db,
+      [tag],
+      (next) => setQuestions(next.filter((q) => !q.hidden)),
+      (err) => {
+        console.error('Error fetching tagged questions:', err);
+        setNotice('Failed to load questions for this tag.');
+      },
+    );
+    return () => {
+      unsubTag();
+      unsubQuestions();
+    };
+  }, [db, tag]);
+
+  const toggleFollow = async () => {
+    if (!userId) return;
+    if (!isFollowing && followedTags.length >= MAX_FOLLOWED_TAGS) {
+      setNotice(`You can follow up to ${MAX_FOLLOWED_TAGS} tags. Unfollow one first.`);
+      return;
+    }
+    setIsSaving(true);
+    setNotice(null);
+    try {
+      await tagsRepo.setTagFollowed(db, userId, tag, !isFollowing);
+    } catch (e) {
+      console.error('Error updating followed tags:', e);
+      setNotice('Could not update your followed tags. Please try again.');
+    }
+    setIsSaving(false);
+  };
+
+  const count = tagDoc?.questionCount ?? 0;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <button onClick={onBack} className="text-indigo-600 hover:text-indigo-800 transition duration-150 font-medium">
+        &larr; Back to Question Feed
+      </button>
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-800 flex items-center">
+            <Hash size={28} className="mr-1 text-indigo-600" /> {tag}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {count} {count === 1 ? 'question' : 'questions'}
+          </p>
+        </div>
+        <button
+          onClick={() => void toggleFollow()}
+          disabled={!userId || isSaving}
+          className={`font-semibold py-2 px-5 rounded-lg transition duration-150 disabled:opacity-50 ${
+            isFollowing
+              ? 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              : 'bg-indigo-600 hover:bg-indigo-700 text-white'
+          }`}
+        >
+          {isFollowing ? 'Following' : 'Follow'}
+        </button>
+      </div>
+
+      {notice && <div className="p-3 rounded-lg bg-yellow-100 text-sm text-gray-700">{notice}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {questions === null ? (
+          <p className="text-gray-500">Loading questions...</p>
+        ) : questions.length === 0 ? (
+          <div className="md:col-span-3 text-center p-12 bg-gray-50 rounded-xl">
+            <p className="text-xl text-gray-500">No questions with this tag yet.</p>
+          </div>
+        ) : (
+          questions.map((q) => (
+            <QuestionCard key={q.id} question={q} onOpenQuestion={onOpenQuestion} onOpenProfile={onOpenProfile} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
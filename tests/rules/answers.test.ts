@@ -0,0 +1,119 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { beforeEach, describe, it } from 'vitest';
+import { answer, dataPath, postWithStamp, question, secondsAgo, serverTimestamp, setupRulesTests } from './helpers.ts';
+
+const { userDb, seed } = setupRulesTests();
+
+const questionPath = dataPath('questions/q1');
+const answerPath = dataPath('questions/q1/answers/a1');
+
+// Verified in General until tomorrow
+const verification = (expiresInSeconds = 86400) => ({
+  categories: { General: { level: 1, expiresAt: secondsAgo(-expiresInSeconds) } },
+  verifiedCategories: ['General'],
+});
+
+const reply = (uid: string, fields: Record<string, unknown> = {}) =>
+  postWithStamp(userDb(uid), uid, `questions/q1/answers/a-${uid}`, answer(uid, fields), 'lastAnswerAt');
+
+describe('answer create', () => {
+  beforeEach(async () => {
+    await seed({ 'questions/q1': question('alice'), 'expert_verifications/bob': verification() });
+  });
+
+  it('allows a verified expert to answer, stamped with the rate limit', async () => {
+    await assertSucceeds(reply('bob'));
+  });
+
+  it('denies users without a verification', async () => {
+    await assertFails(reply('carol'));
+  });
+
+  it('denies experts whose verification has expired', async () => {
+    await seed({ 'expert_verifications/bob': verification(-60) });
+    await assertFails(reply('bob'));
+  });
+
+  it('accepts verifications from before levels', async () => {
+    await seed({ 'expert_verifications/bob': { verifiedCategories: ['General'] } });
+    await assertSucceeds(reply('bob'));
+  });
+
+  it('denies an answer without the rate limit stamp', async () => {
+    await assertFails(userDb('bob').doc(dataPath('questions/q1/answers/a-bob')).set(answer('bob')));
+  });
+
+  it('denies a createdAt other than the request time', async () => {
+    await assertFails(reply('bob', { createdAt: secondsAgo(3600) }));
+  });
+
+  it('denies a client time far from the request time', async () => {
+    await assertFails(reply('bob', { createdAtMs: Date.now() + 3600 * 1000 }));
+    await assertFails(reply('bob', { createdAtMs: Date.now() - 7 * 86400 * 1000 }));
+    await assertFails(reply('bob', { createdAtMs: 'yesterday' }));
+  });
+
+  it("must match the question's id, title and category", async () => {
+    await assertFails(reply('bob', { questionId: 'q2' }));
+    await assertFails(reply('bob', { questionTitle: 'Some other question' }));
+    await assertFails(reply('bob', { category: 'Tax' }));
+  });
+
+  it('denies answers that start accepted', async () => {
+    await assertFails(reply('bob', { accepted: true }));
+  });
+
+  it('denies answers to closed or hidden questions', async () => {
+    await seed({ 'questions/q1': question('alice', { status: 'Closed' }) });
+    await assertFails(reply('bob'));
+    await seed({ 'questions/q1': question('alice', { hidden: true }) });
+    await assertFails(reply('bob'));
+  });
+
+  it('denies a second answer within the rate limit', async () => {
+    await seed({ 'rate_limits/bob': { lastAnswerAt: secondsAgo(10) } });
+    await assertFails(reply('bob'));
+    await seed({ 'rate_limits/bob': { lastAnswerAt: secondsAgo(60) } });
+    await assertSucceeds(reply('bob'));
+  });
+});
+
+describe('answer update', () => {
+  beforeEach(async () => {
+    await seed({ 'questions/q1': question('alice'), 'questions/q1/answers/a1': answer('bob') });
+  });
+
+  it("lets the question's author accept it together with the question", async () => {
+    const db = userDb('alice');
+    const batch = db.batch();
+    batch.update(db.doc(questionPath), { acceptedAnswerId: 'a1', status: 'Closed' });
+    batch.update(db.doc(answerPath), { accepted: true });
+    await assertSucceeds(batch.commit());
+  });
+
+  it("denies an accepted flag that doesn't match the question", async () => {
+    await assertFails(userDb('alice').doc(answerPath).update({ accepted: true }));
+  });
+
+  it('denies accepting by anyone but the question author', async () => {
+    await assertFails(userDb('bob').doc(answerPath).update({ accepted: true }));
+  });
+
+  it('lets the author edit the body with a revision', async () => {
+    const db = userDb('bob');
+    const batch = db.batch();
+    batch.update(db.doc(answerPath), { body: 'Updated answer', revisionCount: 1, editedAt: serverTimestamp() });
+    batch.set(db.doc(`${answerPath}/revisions/1`), {
+      body: answer('bob').body,
+      revision: 1,
+      editedBy: 'bob',
+      editedAt: serverTimestamp(),
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('denies other changes by the author', async () => {
+    await assertFails(userDb('bob').doc(answerPath).update({ category: 'Tax' }));
+    await assertFails(userDb('bob').doc(answerPath).update({ createdAt: serverTimestamp() }));
+  });
+});
@@ -0,0 +1,83 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { beforeEach, describe, it } from 'vitest';
+import { answer, dataPath, postWithStamp, question, secondsAgo, serverTimestamp, setupRulesTests } from './helpers.ts';
+
+const { userDb, guestDb, seed } = setupRulesTests();
+
+const targetKey = (answerId: string | null) => (answerId ? `q1_${answerId}` : 'q1');
+
+const flag = (reporterId: string, answerId: string | null, fields: Record<string, unknown> = {}) => ({
+  targetKey: targetKey(answerId),
+  questionId: 'q1',
+  answerId,
+  reason: 'spam',
+  details: '',
+  reporterId,
+  status: 'open',
+  createdAt: serverTimestamp(),
+  ...fields,
+});
+
+const report = (uid: string, answerId: string | null = null, fields: Record<string, unknown> = {}, db = userDb(uid)) =>
+  postWithStamp(db, uid, `flags/${targetKey(answerId)}_${uid}`, flag(uid, answerId, fields), 'lastFlagAt');
+
+describe('flag create', () => {
+  beforeEach(async () => {
+    await seed({ 'questions/q1': question('alice'), 'questions/q1/answers/a1': answer('bob') });
+  });
+
+  it('allows flagging a question or an answer', async () => {
+    await assertSucceeds(report('carol'));
+    await seed({ 'rate_limits/carol': { lastFlagAt: secondsAgo(60) } });
+    await assertSucceeds(report('carol', 'a1'));
+  });
+
+  it('denies guests', async () => {
+    await assertFails(report('guest', null, {}, guestDb('guest')));
+  });
+
+  it('denies a flag id that does not match the target and reporter', async () => {
+    await assertFails(postWithStamp(userDb('carol'), 'carol', 'flags/q1_dave', flag('carol', null), 'lastFlagAt'));
+  });
+
+  it('denies flags on missing questions or answers', async () => {
+    await assertFails(report('carol', 'missing'));
+    await assertFails(
+      postWithStamp(
+        userDb('carol'),
+        'carol',
+        'flags/q2_carol',
+        flag('carol', null, { targetKey: 'q2', questionId: 'q2' }),
+        'lastFlagAt',
+      ),
+    );
+  });
+
+  it('denies unknown reasons, long details and resolved flags', async () => {
+    await assertFails(report('carol', null, { reason: 'boring' }));
+    await assertFails(report('carol', null, { details: 'x'.repeat(501) }));
+    await assertFails(report('carol', null, { status: 'resolved' }));
+  });
+
+  it('denies flagging as someone else', async () => {
+    await assertFails(postWithStamp(userDb('carol'), 'carol', 'flags/q1_carol', flag('dave', null), 'lastFlagAt'));
+  });
+
+  it('denies a flag without the rate limit stamp or at another time', async () => {
+    await assertFails(userDb('carol').doc(dataPath('flags/q1_carol')).set(flag('carol', null)));
+    await assertFails(report('carol', null, { createdAt: secondsAgo(3600) }));
+  });
+
+  it('denies a second flag within the rate limit', async () => {
+    await seed({ 'rate_limits/carol': { lastFlagAt: secondsAgo(5) } });
+    await assertFails(report('carol'));
+  });
+});
+
+describe('flag update', () => {
+  it('denies reporters changing or deleting their flags', async () => {
+    await seed({ 'questions/q1': question('alice'), 'flags/q1_carol': flag('carol', null) });
+    await assertFails(userDb('carol').doc(dataPath('flags/q1_carol')).update({ status: 'resolved' }));
+    await assertFails(userDb('carol').doc(dataPath('flags/q1_carol')).delete());
+  });
+});
@@ -0,0 +1,104 @@
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+
+// Shared setup for the firestore.rules suites. They run against the Firestore
+// emulator started by `npm run test:rules`, which sets FIRESTORE_EMULATOR_HOST.
+
+export const APP_ID = 'test-app';
+
+export const dataPath = (path: string) => `artifacts/${APP_ID}/public/data/${path}`;
+
+export const { serverTimestamp } = firebase.firestore.FieldValue;
+
+// A stamp `seconds` in the past (or future, if negative)
+export const secondsAgo = (seconds: number) => firebase.firestore.Timestamp.fromMillis(Date.now() - seconds * 1000);
+
+export type Db = firebase.firestore.Firestore;
+
+// Fresh rules and an empty database for every test in the calling file
+export const setupRulesTests = () => {
+  let testEnv: RulesTestEnvironment | undefined;
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+  beforeEach(async () => {
+    await testEnv?.clearFirestore();
+  });
+
+  const env = () => {
+    if (!testEnv) throw new Error('Rules test environment is not initialized');
+    return testEnv;
+  };
+
+  return {
+    // Signed in with an account, or as a guest (anonymous auth)
+    userDb: (uid: string): Db =>
+      env()
+        .authenticatedContext(uid, { firebase: { sign_in_provider: 'password' } })
+        .firestore(),
+    guestDb: (uid: string): Db =>
+      env()
+        .authenticatedContext(uid, { firebase: { sign_in_provider: 'anonymous' } })
+        .firestore(),
+    signedOutDb: (): Db => env().unauthenticatedContext().firestore(),
+    // Writes fixtures as the Admin SDK would, bypassing the rules
+    seed: (docs: Record<string, Record<string, unknown>>) =>
+      env().withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await Promise.all(Object.entries(docs).map(([path, data]) => db.doc(dataPath(path)).set(data)));
+      }),
+  };
+};
+
+export const question = (authorId: string, fields: Record<string, unknown> = {}) => ({
+  title: 'How do I model deferred revenue?',
+  body: 'Cash arrives up front but the service is delivered over a year.',
+  authorId,
+  authorName: 'Alice',
+  category: 'General',
+  tags: ['accounting'],
+  attachments: [],
+  status: 'Open',
+  acceptedAnswerId: null,
+  answerCount: 0,
+  voteScore: 0,
+  createdAt: serverTimestamp(),
+  createdAtMs: Date.now(),
+  ...fields,
+});
+
+export const answer = (authorId: string, fields: Record<string, unknown> = {}) => ({
+  questionId: 'q1',
+  questionTitle: 'How do I model deferred revenue?',
+  body: 'Book it as a liability and release it monthly.',
+  authorId,
+  authorName: 'Bob',
+  category: 'General',
+  attachments: [],
+  accepted: false,
+  createdAt: serverTimestamp(),
+  createdAtMs: Date.now(),
+  ...fields,
+});
+
+// Writes `data` at `path` together with the rate limit stamp, as the repos do
+export const postWithStamp = (
+  db: Db,
+  uid: string,
+  path: string,
+  data: Record<string, unknown>,
+  field: 'lastQuestionAt' | 'lastAnswerAt' | 'lastFlagAt',
+) => {
+  const batch = db.batch();
+  batch.set(db.doc(dataPath(path)), data);
+  batch.set(db.doc(dataPath(`rate_limits/${uid}`)), { [field]: serverTimestamp() }, { merge: true });
+  return batch.commit();
+};
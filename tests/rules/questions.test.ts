@@ -0,0 +1,197 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { describe, it } from 'vitest';
+import {
+  answer,
+  APP_ID,
+  dataPath,
+  postWithStamp,
+  question,
+  secondsAgo,
+  serverTimestamp,
+  setupRulesTests,
+} from './helpers.ts';
+
+const { userDb, guestDb, signedOutDb, seed } = setupRulesTests();
+
+// Each asker gets their own question id, so a second create isn't an update
+const ask = (uid: string, fields: Record<string, unknown> = {}, db = userDb(uid)) =>
+  postWithStamp(db, uid, `questions/q-${uid}`, question(uid, fields), 'lastQuestionAt');
+
+const attachment = (uid: string, id = 'b2c1d7e0-1f6a-4c1e-9a53-0d6f1f9a2b10') => ({
+  id,
+  name: 'statement.pdf',
+  contentType: 'application/pdf',
+  size: 2048,
+  path: `artifacts/${APP_ID}/attachments/${uid}/${id}`,
+  hasThumbnail: false,
+});
+
+describe('question create', () => {
+  it('allows a valid question stamped with its rate limit', async () => {
+    await assertSucceeds(ask('alice'));
+  });
+
+  it('denies signed-out users', async () => {
+    await assertFails(ask('alice', {}, signedOutDb()));
+  });
+
+  it('denies posting as someone else', async () => {
+    await assertFails(
+      postWithStamp(userDb('mallory'), 'mallory', 'questions/q-mallory', question('alice'), 'lastQuestionAt'),
+    );
+  });
+
+  it('denies a question without the rate limit stamp', async () => {
+    await assertFails(userDb('alice').doc(dataPath('questions/q-alice')).set(question('alice')));
+  });
+
+  it('denies a createdAt other than the request time', async () => {
+    await assertFails(ask('alice', { createdAt: secondsAgo(3600) }));
+  });
+
+  it('denies a client time far from the request time', async () => {
+    await assertFails(ask('alice', { createdAtMs: Date.now() + 3600 * 1000 }));
+    await assertFails(ask('alice', { createdAtMs: Date.now() - 7 * 86400 * 1000 }));
+    await assertFails(ask('alice', { createdAtMs: 'yesterday' }));
+  });
+
+  it('denies titles and bodies outside the length limits', async () => {
+    await assertFails(ask('alice', { title: 'Too short' }));
+    await assertFails(ask('alice', { title: 'x'.repeat(201) }));
+    await assertFails(ask('alice', { body: '' }));
+  });
+
+  it('denies questions that start closed, accepted or with stats', async () => {
+    await assertFails(ask('alice', { status: 'Closed' }));
+    await assertFails(ask('alice', { acceptedAnswerId: 'a1' }));
+    await assertFails(ask('alice', { answerCount: 3 }));
+    await assertFails(ask('alice', { voteScore: 10 }));
+  });
+
+  it('denies fields owned by functions', async () => {
+    await assertFails(ask('alice', { bounty: { amount: 50, status: 'active' } }));
+    await assertFails(ask('alice', { hidden: true }));
+  });
+
+  it('allows active quiz bank categories only', async () => {
+    await seed({ 'quiz_banks/Tax': { active: true }, 'quiz_banks/Audit': { active: false } });
+    await assertSucceeds(ask('alice', { category: 'Tax', tags: [] }));
+    await assertFails(ask('bob', { category: 'Audit', tags: [] }));
+  });
+
+  it('denies malformed tags', async () => {
+    await assertFails(ask('alice', { tags: [123] }));
+    await assertFails(ask('alice', { tags: [{}] }));
+    await assertFails(ask('alice', { tags: ['Not A Slug'] }));
+    await assertFails(ask('alice', { tags: ['a', 'b', 'c', 'd', 'e', 'f'] }));
+  });
+
+  it("limits tags to the bank's sub-topics", async () => {
+    await seed({ 'quiz_banks/Tax': { active: true, subTopics: ['vat', 'payroll'] } });
+    await assertSucceeds(ask('alice', { category: 'Tax', tags: ['vat'] }));
+    await assertFails(ask('bob', { category: 'Tax', tags: ['crypto'] }));
+  });
+
+  it("allows attachments in the author's own upload folder only", async () => {
+    await assertSucceeds(ask('alice', { attachments: [attachment('alice')] }));
+    await assertFails(ask('bob', { attachments: [attachment('alice')] }));
+  });
+
+  it('denies malformed attachments', async () => {
+    await assertFails(ask('alice', { attachments: [{ ...attachment('alice'), contentType: 'text/html' }] }));
+    await assertFails(ask('alice', { attachments: [{ ...attachment('alice'), size: 11 * 1024 * 1024 }] }));
+    await assertFails(ask('alice', { attachments: [{ ...attachment('alice'), url: 'https://example.com/x' }] }));
+    await assertFails(ask('alice', { attachments: ['a', 'b', 'c', 'd', 'e'].map((id) => attachment('alice', id)) }));
+  });
+});
+
+describe('question rate limit', () => {
+  it('denies a second question within a minute', async () => {
+    await seed({ 'rate_limits/alice': { lastQuestionAt: secondsAgo(30) } });
+    await assertFails(ask('alice'));
+  });
+
+  it('allows a question once the interval has passed', async () => {
+    await seed({ 'rate_limits/alice': { lastQuestionAt: secondsAgo(90) } });
+    await assertSucceeds(ask('alice'));
+  });
+
+  it('makes guests wait longer', async () => {
+    await seed({ 'rate_limits/guest': { lastQuestionAt: secondsAgo(90) } });
+    await assertFails(ask('guest', {}, guestDb('guest')));
+    await seed({ 'rate_limits/guest': { lastQuestionAt: secondsAgo(400) } });
+    await assertSucceeds(ask('guest', {}, guestDb('guest')));
+  });
+
+  it('ignores other kinds of stamps', async () => {
+    await seed({ 'rate_limits/alice': { lastAnswerAt: secondsAgo(1) } });
+    await assertSucceeds(ask('alice'));
+  });
+});
+
+describe('question update', () => {
+  const questionPath = dataPath('questions/q1');
+
+  it('lets the author close and reopen the question', async () => {
+    await seed({ 'questions/q1': question('alice') });
+    await assertSucceeds(userDb('alice').doc(questionPath).update({ status: 'Closed' }));
+    await assertSucceeds(userDb('alice').doc(questionPath).update({ status: 'Open' }));
+    await assertFails(userDb('alice').doc(questionPath).update({ status: 'Archived' }));
+  });
+
+  it('denies updates by other users', async () => {
+    await seed({ 'questions/q1': question('alice') });
+    await assertFails(userDb('bob').doc(questionPath).update({ status: 'Closed' }));
+  });
+
+  it('only accepts an existing answer, closing the question', async () => {
+    await seed({ 'questions/q1': question('alice'), 'questions/q1/answers/a1': answer('bob') });
+    await assertFails(userDb('alice').doc(questionPath).update({ acceptedAnswerId: 'a1' }));
+    await assertFails(userDb('alice').doc(questionPath).update({ acceptedAnswerId: 'missing', status: 'Closed' }));
+    await assertSucceeds(userDb('alice').doc(questionPath).update({ acceptedAnswerId: 'a1', status: 'Closed' }));
+  });
+
+  it('denies writes to stats, bounty and authorship', async () => {
+    await seed({ 'questions/q1': question('alice') });
+    await assertFails(userDb('alice').doc(questionPath).update({ answerCount: 5 }));
+    await assertFails(
+      userDb('alice')
+        .doc(questionPath)
+        .update({ bounty: { amount: 50, status: 'active' } }),
+    );
+    await assertFails(userDb('alice').doc(questionPath).update({ authorId: 'bob' }));
+  });
+
+  it('allows edits that record the replaced text as a revision', async () => {
+    const original = question('alice');
+    await seed({ 'questions/q1': original });
+    const db = userDb('alice');
+    const batch = db.batch();
+    batch.update(db.doc(questionPath), {
+      title: 'How should I model deferred revenue?',
+      body: 'Updated body',
+      revisionCount: 1,
+      editedAt: serverTimestamp(),
+    });
+    batch.set(db.doc(`${questionPath}/revisions/1`), {
+      title: original.title,
+      body: original.body,
+      revision: 1,
+      editedBy: 'alice',
+      editedAt: serverTimestamp(),
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('denies edits without a revision', async () => {
+    await seed({ 'questions/q1': question('alice') });
+    await assertFails(
+      userDb('alice').doc(questionPath).update({ body: 'Updated body', revisionCount: 1, editedAt: serverTimestamp() }),
+    );
+  });
+
+  it('freezes hidden questions', async () => {
+    await seed({ 'questions/q1': question('alice', { hidden: true }) });
+    await assertFails(userDb('alice').doc(questionPath).update({ status: 'Closed' }));
+  });
+});
@@ -0,0 +1,42 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { describe, it } from 'vitest';
+import { dataPath, secondsAgo, serverTimestamp, setupRulesTests } from './helpers.ts';
+
+const { userDb, seed } = setupRulesTests();
+
+const limitPath = (uid: string) => dataPath(`rate_limits/${uid}`);
+
+describe('rate_limits', () => {
+  it('lets users stamp their own limits with the request time', async () => {
+    await assertSucceeds(userDb('alice').doc(limitPath('alice')).set({ lastQuestionAt: serverTimestamp() }));
+    await assertSucceeds(
+      userDb('alice').doc(limitPath('alice')).set({ lastAnswerAt: serverTimestamp() }, { merge: true }),
+    );
+  });
+
+  it('denies moving a stamp back to skip the wait', async () => {
+    await seed({ 'rate_limits/alice': { lastQuestionAt: secondsAgo(5) } });
+    await assertFails(
+      userDb('alice')
+        .doc(limitPath('alice'))
+        .update({ lastQuestionAt: secondsAgo(3600) }),
+    );
+    await assertFails(userDb('alice').doc(limitPath('alice')).update({ lastQuestionAt: null }));
+  });
+
+  it('denies deleting the limits doc', async () => {
+    await seed({ 'rate_limits/alice': { lastQuestionAt: secondsAgo(5) } });
+    await assertFails(userDb('alice').doc(limitPath('alice')).delete());
+  });
+
+  it("denies other users' limits and unknown fields", async () => {
+    await assertFails(userDb('bob').doc(limitPath('alice')).set({ lastQuestionAt: serverTimestamp() }));
+    await assertFails(userDb('alice').doc(limitPath('alice')).set({ lastVoteAt: serverTimestamp() }));
+  });
+
+  it('is readable by its owner only', async () => {
+    await seed({ 'rate_limits/alice': { lastQuestionAt: secondsAgo(5) } });
+    await assertSucceeds(userDb('alice').doc(limitPath('alice')).get());
+    await assertFails(userDb('bob').doc(limitPath('alice')).get());
+  });
+});
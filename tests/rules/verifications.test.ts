@@ -0,0 +1,30 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { describe, it } from 'vitest';
+import { dataPath, setupRulesTests } from './helpers.ts';
+
+const { userDb, seed } = setupRulesTests();
+
+describe('expert_verifications', () => {
+  const verificationPath = dataPath('expert_verifications/alice');
+
+  it('is readable by its owner only', async () => {
+    await seed({ 'expert_verifications/alice': { verifiedCategories: ['General'] } });
+    await assertSucceeds(userDb('alice').doc(verificationPath).get());
+    await assertFails(userDb('bob').doc(verificationPath).get());
+  });
+
+  it('denies all client writes, including self-verification', async () => {
+    await assertFails(
+      userDb('alice')
+        .doc(verificationPath)
+        .set({ verifiedCategories: ['General'] }),
+    );
+    await seed({ 'expert_verifications/alice': { verifiedCategories: [] } });
+    await assertFails(
+      userDb('alice')
+        .doc(verificationPath)
+        .update({ verifiedCategories: ['General'] }),
+    );
+    await assertFails(userDb('alice').doc(verificationPath).delete());
+  });
+});